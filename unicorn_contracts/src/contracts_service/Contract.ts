@@ -1,9 +1,10 @@
 // Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: MIT-0
+import type { AttributeValue } from "@aws-sdk/client-dynamodb";
 
 /**
  * Defines the structure of a contract in the database.
- * 
+ *
  * @property address - The address of the contract.
  * @property property_id - The ID of the property associated with the contract.
  * @property contract_id - The ID of the contract.
@@ -11,40 +12,154 @@
  * @property contract_status - The status of the contract.
  * @property contract_created - The date the contract was created.
  * @property contract_last_modified_on - The date the contract was last modified.
+ * @property cancellation_reason - The reason given when the contract was cancelled.
+ * @property expires_on - The date after which a DRAFT contract is moved to EXPIRED.
+ * @property buyer - The buyer of the property.
+ * @property price - The agreed price, as a decimal string, e.g. 350000.00.
+ * @property currency - The ISO 4217 currency code of the price and deposit.
+ * @property deposit - The deposit, as a decimal string.
+ * @property closing_date - The target closing date, as YYYY-MM-DD.
+ * @property signatures - The signatures collected while the contract is PENDING_SIGNATURES, by party.
+ * @property version - Incremented by every write. Updates must send the version they were based on.
+ * @property document_template - The version of the template the contract document is rendered with.
+ * @property document_key - The object key of the last rendered contract document.
+ * @property seller_search_name - The seller name normalised for search, see sellerSearchKeysOf.
+ * @property seller_initial - The first character of seller_search_name; partitions the seller index.
+ * @property agency_id - The agency that manages the property. Only that agency can read or change the contract.
  */
-export type ContractDBType = {  
+export type ContractDBType = {
   address?: string;
   property_id: string;
+  agency_id?: string;
   contract_id?: string;
   seller_name?: string;
+  buyer?: ContractBuyer;
+  price?: string;
+  currency?: string;
+  deposit?: string;
+  closing_date?: string;
+  signatures?: Partial<Record<ContractPartyEnum, ContractSignature>>;
   contract_status: ContractStatusEnum;
   contract_created?: string;
   contract_last_modified_on?: string;
+  cancellation_reason?: string;
+  expires_on?: string;
+  version?: number;
+  document_template?: string;
+  document_key?: string;
+  seller_search_name?: string;
+  seller_initial?: string;
 };
 
+/**
+ * Defines the buyer of a property.
+ *
+ * @property name - The name of the buyer.
+ * @property email - The email address of the buyer.
+ */
+export type ContractBuyer = {
+  name: string;
+  email: string;
+};
+
+/**
+ * The claim of an agency user pool ID token that holds the agency the caller acts for.
+ */
+export const AGENCY_CLAIM = "custom:agency_id";
+
+/**
+ * The terms of the sale. They are set when a contract is created and may be changed when it is updated.
+ */
+export const CONTRACT_TERMS = [
+  "buyer",
+  "price",
+  "currency",
+  "deposit",
+  "closing_date",
+] as const;
+
+/**
+ * The fields of a DRAFT contract that can be amended.
+ */
+export const AMENDABLE_FIELDS = [
+  "seller_name",
+  "address",
+  ...CONTRACT_TERMS,
+] as const;
+
+/**
+ * Defines the change of a single field made by an amendment.
+ *
+ * @property field - The name of the field.
+ * @property old_value - The value before the amendment, if the field was set.
+ * @property new_value - The value after the amendment.
+ */
+export type ContractFieldChange = {
+  field: string;
+  old_value?: unknown;
+  new_value: unknown;
+};
 
 /**
  * Enumerates the possible status values for a contract.
- * 
+ *
  * @enum {string}
  * @property APPROVED - The contract has been approved.
  * @property CANCELLED - The contract has been cancelled.
  * @property DRAFT - The contract is in draft status.
+ * @property PENDING_SIGNATURES - The contract is waiting for the seller and the buyer to sign.
  * @property CLOSED - The contract has been closed.
  * @property EXPIRED - The contract has expired.
  */
 export enum ContractStatusEnum {
   APPROVED = "APPROVED",
   CANCELLED = "CANCELLED",
-  DRAFT = 'DRAFT',
+  DRAFT = "DRAFT",
+  PENDING_SIGNATURES = "PENDING_SIGNATURES",
   CLOSED = "CLOSED",
-  EXPIRED = "EXPIRED"
+  EXPIRED = "EXPIRED",
 }
 
+/**
+ * Enumerates the parties that must sign a contract before it is approved.
+ *
+ * @enum {string}
+ * @property SELLER - The seller of the property.
+ * @property BUYER - The buyer of the property.
+ */
+export enum ContractPartyEnum {
+  SELLER = "SELLER",
+  BUYER = "BUYER",
+}
+
+/**
+ * Defines a signature recorded on a contract.
+ *
+ * @property signed_on - The date the signature was recorded.
+ * @property signature_reference - A reference to the signature, e.g. the ID of the signed document
+ * in the e-signature provider.
+ */
+export type ContractSignature = {
+  signed_on: string;
+  signature_reference: string;
+};
+
+/**
+ * Defines a request to sign a contract.
+ *
+ * @property property_id - The ID of the property associated with the contract.
+ * @property party - The party that signed.
+ * @property signature_reference - A reference to the signature.
+ */
+export type ContractSignatureRequest = {
+  property_id: string;
+  party: ContractPartyEnum;
+  signature_reference: string;
+};
 
 /**
  * Defines an interface for a contract error that extends the base Error interface.
- * 
+ *
  * @interface ContractError
  * @extends Error
  * @property propertyId - The ID of the property associated with the error.
@@ -55,10 +170,9 @@ export interface ContractError extends Error {
   object?: any;
 }
 
-
 /**
  * Defines an interface for a contract response.
- * 
+ *
  * @interface ContractResponse
  * @property propertyId - The ID of the property associated with the response.
  * @property metadata - Additional metadata associated with the response.
@@ -68,5 +182,716 @@ export interface ContractResponse {
   metadata: any;
 }
 
+/**
+ * Enumerates the events that move a contract from one status to another.
+ *
+ * @enum {string}
+ * @property CREATE - A new contract is created for the property.
+ * @property AMEND - Fields of a DRAFT contract are corrected. The status does not change.
+ * @property REQUEST_SIGNATURES - The contract is sent to the seller and the buyer for signing.
+ * @property SIGN - A party signs the contract. The last required signature approves it.
+ * @property CANCEL - The contract is cancelled.
+ * @property EXPIRE - The contract has passed its expiry date.
+ */
+export enum ContractEventEnum {
+  CREATE = "CREATE",
+  AMEND = "AMEND",
+  REQUEST_SIGNATURES = "REQUEST_SIGNATURES",
+  SIGN = "SIGN",
+  CANCEL = "CANCEL",
+  EXPIRE = "EXPIRE",
+}
+
+/**
+ * Defines the values a transition is evaluated against.
+ *
+ * @property now - The date the transition is attempted.
+ * @property signedBy - The party signing the contract, for SIGN events.
+ */
+export type ContractTransitionContext = {
+  now: Date;
+  signedBy?: ContractPartyEnum;
+};
+
+/**
+ * Defines an additional condition a transition must satisfy. The same condition is expressed
+ * in memory and as a DynamoDB condition expression, so both always agree.
+ *
+ * @property description - A human readable description of the condition.
+ * @property expression - Builds the DynamoDB condition expression.
+ * @property values - Builds the expression attribute values used by the expression.
+ * @property test - Evaluates the condition against a contract in memory.
+ */
+export type ContractTransitionGuard = {
+  description: string;
+  expression: (context: ContractTransitionContext) => string;
+  values: (
+    context: ContractTransitionContext
+  ) => Record<string, AttributeValue>;
+  test: (
+    contract: ContractDBType,
+    context: ContractTransitionContext
+  ) => boolean;
+};
+
+/**
+ * Defines a single allowed move in the contract lifecycle.
+ *
+ * @property from - The current status of the contract, or undefined when there is no contract yet.
+ * @property event - The event that triggers the transition.
+ * @property to - The status of the contract after the transition.
+ * @property guard - An additional condition the contract must satisfy (optional).
+ */
+export type ContractTransition = {
+  from: ContractStatusEnum | undefined;
+  event: ContractEventEnum;
+  to: ContractStatusEnum;
+  guard?: ContractTransitionGuard;
+};
+
+const EXPIRY_DATE_PASSED: ContractTransitionGuard = {
+  description: "The contract expiry date has passed",
+  expression: () => "expires_on <= :now",
+  values: (context) => ({ ":now": { S: context.now.toISOString() } }),
+  test: (contract, context) =>
+    contract.expires_on !== undefined &&
+    contract.expires_on <= context.now.toISOString(),
+};
+
+/**
+ * Every party that must sign before a contract is approved.
+ */
+export const REQUIRED_SIGNATURES: ReadonlyArray<ContractPartyEnum> =
+  Object.values(ContractPartyEnum);
+
+/**
+ * Returns the parties, other than the one signing now, that must sign the contract.
+ */
+function otherSignatories(
+  context: ContractTransitionContext
+): ContractPartyEnum[] {
+  return REQUIRED_SIGNATURES.filter((party) => party !== context.signedBy);
+}
+
+/**
+ * Tells whether the party signing now has not signed before.
+ */
+function isFirstSignatureOf(
+  contract: ContractDBType,
+  context: ContractTransitionContext
+): boolean {
+  return (
+    context.signedBy !== undefined &&
+    contract.signatures?.[context.signedBy] === undefined
+  );
+}
+
+const SIGNATURES_OUTSTANDING: ContractTransitionGuard = {
+  description:
+    "The party has not signed yet and other signatures are still missing",
+  expression: (context) =>
+    `attribute_not_exists(signatures.${context.signedBy}) AND (` +
+    otherSignatories(context)
+      .map((party) => `attribute_not_exists(signatures.${party})`)
+      .join(" OR ") +
+    ")",
+  values: () => ({}),
+  test: (contract, context) =>
+    isFirstSignatureOf(contract, context) &&
+    otherSignatories(context).some(
+      (party) => contract.signatures?.[party] === undefined
+    ),
+};
+
+const LAST_SIGNATURE: ContractTransitionGuard = {
+  description: "The party has not signed yet and is the last one to sign",
+  expression: (context) =>
+    [`attribute_not_exists(signatures.${context.signedBy})`]
+      .concat(
+        otherSignatories(context).map(
+          (party) => `attribute_exists(signatures.${party})`
+        )
+      )
+      .join(" AND "),
+  values: () => ({}),
+  test: (contract, context) =>
+    isFirstSignatureOf(contract, context) &&
+    otherSignatories(context).every(
+      (party) => contract.signatures?.[party] !== undefined
+    ),
+};
+
+/**
+ * The contract lifecycle. Any move not listed here is illegal.
+ */
+export const CONTRACT_TRANSITIONS: ReadonlyArray<ContractTransition> = [
+  {
+    from: undefined,
+    event: ContractEventEnum.CREATE,
+    to: ContractStatusEnum.DRAFT,
+  },
+  {
+    from: ContractStatusEnum.CANCELLED,
+    event: ContractEventEnum.CREATE,
+    to: ContractStatusEnum.DRAFT,
+  },
+  {
+    from: ContractStatusEnum.CLOSED,
+    event: ContractEventEnum.CREATE,
+    to: ContractStatusEnum.DRAFT,
+  },
+  {
+    from: ContractStatusEnum.EXPIRED,
+    event: ContractEventEnum.CREATE,
+    to: ContractStatusEnum.DRAFT,
+  },
+  {
+    from: ContractStatusEnum.DRAFT,
+    event: ContractEventEnum.AMEND,
+    to: ContractStatusEnum.DRAFT,
+  },
+  {
+    from: ContractStatusEnum.DRAFT,
+    event: ContractEventEnum.REQUEST_SIGNATURES,
+    to: ContractStatusEnum.PENDING_SIGNATURES,
+  },
+  {
+    from: ContractStatusEnum.PENDING_SIGNATURES,
+    event: ContractEventEnum.SIGN,
+    to: ContractStatusEnum.PENDING_SIGNATURES,
+    guard: SIGNATURES_OUTSTANDING,
+  },
+  {
+    from: ContractStatusEnum.PENDING_SIGNATURES,
+    event: ContractEventEnum.SIGN,
+    to: ContractStatusEnum.APPROVED,
+    guard: LAST_SIGNATURE,
+  },
+  {
+    from: ContractStatusEnum.DRAFT,
+    event: ContractEventEnum.CANCEL,
+    to: ContractStatusEnum.CANCELLED,
+  },
+  {
+    from: ContractStatusEnum.PENDING_SIGNATURES,
+    event: ContractEventEnum.CANCEL,
+    to: ContractStatusEnum.CANCELLED,
+  },
+  {
+    from: ContractStatusEnum.APPROVED,
+    event: ContractEventEnum.CANCEL,
+    to: ContractStatusEnum.CANCELLED,
+  },
+  {
+    from: ContractStatusEnum.DRAFT,
+    event: ContractEventEnum.EXPIRE,
+    to: ContractStatusEnum.EXPIRED,
+    guard: EXPIRY_DATE_PASSED,
+  },
+];
+
+/**
+ * Error raised when a contract cannot move from its current status with the given event.
+ *
+ * @class ContractTransitionError
+ * @extends Error
+ * @implements ContractError
+ * @property propertyId - The ID of the property associated with the error.
+ * @property event - The event that was rejected.
+ * @property from - The status the contract was in, if known.
+ */
+export class ContractTransitionError extends Error implements ContractError {
+  propertyId: string;
+  event: ContractEventEnum;
+  from?: ContractStatusEnum;
+  object?: any;
+
+  constructor(
+    propertyId: string,
+    event: ContractEventEnum,
+    from?: ContractStatusEnum
+  ) {
+    super(
+      `Contract for ${propertyId} cannot ${event} from status ${from ?? "NONE"}`
+    );
+    this.name = "ContractTransitionError";
+    this.propertyId = propertyId;
+    this.event = event;
+    this.from = from;
+  }
+}
+
+/**
+ * Error raised when a request is made for a contract managed by another agency.
+ *
+ * @class ContractAgencyMismatchError
+ * @extends Error
+ * @implements ContractError
+ * @property propertyId - The ID of the property associated with the error.
+ * @property agencyId - The agency the request was made for.
+ */
+export class ContractAgencyMismatchError
+  extends Error
+  implements ContractError
+{
+  propertyId: string;
+  agencyId: string;
+  object?: any;
+
+  constructor(propertyId: string, agencyId: string) {
+    super(`Contract for ${propertyId} is not managed by agency ${agencyId}`);
+    this.name = "ContractAgencyMismatch";
+    this.propertyId = propertyId;
+    this.agencyId = agencyId;
+  }
+}
+
+/**
+ * Error raised when a contract was changed since the version the request was based on.
+ *
+ * @class ContractVersionConflictError
+ * @extends Error
+ * @implements ContractError
+ * @property propertyId - The ID of the property associated with the error.
+ * @property expectedVersion - The version the request was based on.
+ * @property currentVersion - The version of the stored contract.
+ */
+export class ContractVersionConflictError
+  extends Error
+  implements ContractError
+{
+  propertyId: string;
+  expectedVersion: number;
+  currentVersion: number;
+  object?: any;
+
+  constructor(
+    propertyId: string,
+    expectedVersion: number,
+    currentVersion: number
+  ) {
+    super(
+      `Contract for ${propertyId} is at version ${currentVersion}, not ${expectedVersion}`
+    );
+    this.name = "ContractVersionConflict";
+    this.propertyId = propertyId;
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+  }
+}
+
+/**
+ * Defines a single request field that failed validation.
+ *
+ * @property field - The path of the field, e.g. address.number.
+ * @property message - Why the field is invalid.
+ */
+export type ContractFieldError = {
+  field: string;
+  message: string;
+};
+
+/**
+ * Error raised when a contract request can never succeed, however often it is retried.
+ * Such requests are moved to the dead letter queue instead of being retried.
+ *
+ * @class InvalidContractRequestError
+ * @extends Error
+ * @property reason - A short code saying why the request is invalid, e.g. InvalidJson.
+ * @property fieldErrors - The fields that failed validation (optional).
+ */
+export class InvalidContractRequestError extends Error {
+  reason: string;
+  fieldErrors?: ContractFieldError[];
+
+  constructor(
+    reason: string,
+    message: string,
+    fieldErrors?: ContractFieldError[]
+  ) {
+    super(message);
+    this.name = "InvalidContractRequestError";
+    this.reason = reason;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * Defines the DynamoDB condition that only lets a write through when the stored contract
+ * is in a status the event can move it from.
+ *
+ * @property to - The status of the contract after the transition.
+ * @property conditionExpression - The DynamoDB condition expression.
+ * @property expressionAttributeValues - The values referenced by the condition expression.
+ */
+export type ContractTransitionCondition = {
+  to: ContractStatusEnum;
+  conditionExpression: string;
+  expressionAttributeValues: Record<string, AttributeValue>;
+};
+
+/**
+ * Returns the status a contract moves to when the event is applied.
+ *
+ * @param contract - The current contract, or undefined when there is no contract yet.
+ * @param event - The event to apply.
+ * @param context - The values guards are evaluated against.
+ * @param propertyId - The ID of the property, used when there is no contract yet.
+ * @returns {ContractStatusEnum} - The status after the transition.
+ * @throws {ContractTransitionError} - If no transition allows the move.
+ */
+export function nextContractStatus(
+  contract: ContractDBType | undefined,
+  event: ContractEventEnum,
+  context: ContractTransitionContext,
+  propertyId = contract?.property_id ?? ""
+): ContractStatusEnum {
+  const from = contract?.contract_status;
+  const transition = CONTRACT_TRANSITIONS.find(
+    (t) =>
+      t.event === event &&
+      t.from === from &&
+      (t.guard === undefined ||
+        (contract !== undefined && t.guard.test(contract, context)))
+  );
+  if (transition === undefined) {
+    throw new ContractTransitionError(propertyId, event, from);
+  }
+  return transition.to;
+}
+
+/**
+ * Builds the DynamoDB condition for all transitions triggered by the event.
+ *
+ * @param event - The event to build the condition for.
+ * @param context - The values guards are evaluated against.
+ * @returns {ContractTransitionCondition} - The condition and the status the contract moves to.
+ */
+export function buildTransitionCondition(
+  event: ContractEventEnum,
+  context: ContractTransitionContext
+): ContractTransitionCondition {
+  const transitions = CONTRACT_TRANSITIONS.filter((t) => t.event === event);
+  const targets = new Set(transitions.map((t) => t.to));
+  if (targets.size !== 1) {
+    // A single conditional write can only set one status
+    throw new Error(
+      `Event ${event} must lead to exactly one status, found ${targets.size}`
+    );
+  }
+
+  const terms: string[] = [];
+  let expressionAttributeValues: Record<string, AttributeValue> = {};
+  for (const transition of transitions) {
+    const term = transitionTerm(transition, context);
+    terms.push(term.conditionExpression);
+    expressionAttributeValues = {
+      ...expressionAttributeValues,
+      ...term.expressionAttributeValues,
+    };
+  }
+
+  return {
+    to: transitions[0].to,
+    conditionExpression: terms.join(" OR "),
+    expressionAttributeValues,
+  };
+}
+
+/**
+ * Builds the DynamoDB condition for the single transition that applies to a contract that
+ * has just been read. The condition only lets the write through while the stored contract
+ * is still in the status that was read.
+ *
+ * @param contract - The current contract, or undefined when there is no contract yet.
+ * @param event - The event to apply.
+ * @param context - The values guards are evaluated against.
+ * @param propertyId - The ID of the property, used when there is no contract yet.
+ * @returns {ContractTransitionCondition} - The condition and the status the contract moves to.
+ * @throws {ContractTransitionError} - If no transition allows the move.
+ */
+export function buildContractTransition(
+  contract: ContractDBType | undefined,
+  event: ContractEventEnum,
+  context: ContractTransitionContext,
+  propertyId = contract?.property_id ?? ""
+): ContractTransitionCondition {
+  const to = nextContractStatus(contract, event, context, propertyId);
+  const transition = CONTRACT_TRANSITIONS.find(
+    (t) =>
+      t.event === event && t.from === contract?.contract_status && t.to === to
+  ) as ContractTransition;
+  return { to, ...transitionTerm(transition, context) };
+}
+
+/**
+ * Defines a transition condition that also checks the version of the stored contract.
+ *
+ * @property version - The version the write must set.
+ */
+export type VersionedContractTransitionCondition =
+  ContractTransitionCondition & {
+    version: number;
+  };
 
+/**
+ * Returns the version of a stored contract. Contracts written before versions were introduced are at version 0.
+ *
+ * @param contract - The stored contract, if any.
+ * @returns {number} - The version of the contract.
+ */
+export function contractVersionOf(
+  contract: ContractDBType | undefined
+): number {
+  return contract?.version ?? 0;
+}
 
+/**
+ * Normalises a seller name, or the prefix of one, for a case-insensitive search: trimmed, lower
+ * case and with single spaces, e.g. "  John  DOE" becomes "john doe".
+ *
+ * @param {string} sellerName - The seller name or prefix.
+ * @returns {string} - The normalised name.
+ */
+export function normaliseSellerName(sellerName: string): string {
+  return sellerName.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Returns the attributes that index a contract by seller. Contracts without a seller name are not indexed.
+ *
+ * @param {string} sellerName - The seller name of the contract.
+ * @returns The seller index keys, or no attributes if the name is empty.
+ */
+export function sellerSearchKeysOf(
+  sellerName: string | undefined
+): Pick<ContractDBType, "seller_search_name" | "seller_initial"> {
+  const searchName = normaliseSellerName(sellerName ?? "");
+  if (searchName === "") {
+    return {};
+  }
+  return {
+    seller_search_name: searchName,
+    seller_initial: searchName.charAt(0),
+  };
+}
+
+/**
+ * Adds a version check to a transition condition, so the write only goes through when the stored
+ * contract is still at the expected version.
+ *
+ * @param transition - The pinned transition condition built by buildContractTransition.
+ * @param expectedVersion - The version the write is based on.
+ * @returns The extended condition and the version the write must set.
+ */
+export function buildVersionedTransition(
+  transition: ContractTransitionCondition,
+  expectedVersion: number
+): VersionedContractTransitionCondition {
+  const versionTerm =
+    expectedVersion === 0
+      ? "attribute_not_exists(version)"
+      : "version = :expected_version";
+  return {
+    to: transition.to,
+    version: expectedVersion + 1,
+    conditionExpression: `${transition.conditionExpression} AND ${versionTerm}`,
+    expressionAttributeValues: {
+      ...transition.expressionAttributeValues,
+      ...(expectedVersion === 0
+        ? {}
+        : { ":expected_version": { N: String(expectedVersion) } }),
+    },
+  };
+}
+
+/**
+ * Scopes a transition condition to the agency of the request, so the write only goes through while
+ * the stored contract is managed by that agency. A property without a contract can be claimed by
+ * any agency, and so can a contract written before agencies were kept: the write must set
+ * agency_id to :agency_id so that the contract is managed by that agency from then on.
+ *
+ * @param transition - The pinned transition condition built by buildContractTransition.
+ * @param contract - The current contract, or undefined when there is no contract yet.
+ * @param agencyId - The agency the request was made for.
+ * @returns The extended condition.
+ */
+export function buildAgencyScopedTransition<
+  T extends ContractTransitionCondition
+>(transition: T, contract: ContractDBType | undefined, agencyId: string): T {
+  if (contract === undefined) {
+    return transition;
+  }
+  const agencyTerm =
+    contract.agency_id === undefined
+      ? "(agency_id = :agency_id OR attribute_not_exists(agency_id))"
+      : "agency_id = :agency_id";
+  return {
+    ...transition,
+    conditionExpression: `${transition.conditionExpression} AND ${agencyTerm}`,
+    expressionAttributeValues: {
+      ...transition.expressionAttributeValues,
+      ":agency_id": { S: agencyId },
+    },
+  };
+}
+
+/**
+ * Builds the condition term for a single transition.
+ *
+ * @param transition - The transition to build the term for.
+ * @param context - The values guards are evaluated against.
+ * @returns The condition expression and the values it references.
+ */
+function transitionTerm(
+  transition: ContractTransition,
+  context: ContractTransitionContext
+): Omit<ContractTransitionCondition, "to"> {
+  if (transition.from === undefined) {
+    return {
+      conditionExpression: "attribute_not_exists(property_id)",
+      expressionAttributeValues: {},
+    };
+  }
+  const statusTerm = `contract_status = :${transition.from}`;
+  const statusValues = { [`:${transition.from}`]: { S: transition.from } };
+  if (transition.guard === undefined) {
+    return {
+      conditionExpression: statusTerm,
+      expressionAttributeValues: statusValues,
+    };
+  }
+  return {
+    conditionExpression: `(${statusTerm} AND ${transition.guard.expression(
+      context
+    )})`,
+    expressionAttributeValues: {
+      ...statusValues,
+      ...transition.guard.values(context),
+    },
+  };
+}
+
+/**
+ * Defines the structure of an immutable history record, written with every contract transition.
+ *
+ * @property property_id - The ID of the property associated with the contract.
+ * @property history_id - Sorts records by the time of the change, unique per record.
+ * @property agency_id - The agency that managed the contract when it changed. Absent on records written before it was kept.
+ * @property contract_id - The ID of the contract that changed.
+ * @property event - The event that triggered the transition.
+ * @property from_status - The status before the transition, absent when there was no contract.
+ * @property to_status - The status after the transition.
+ * @property changed_on - The date of the transition.
+ * @property requested_by - Who requested the change.
+ * @property request_id - The ID of the request that caused the change.
+ * @property signed_by - The party that signed, for SIGN events.
+ * @property changes - The fields that were changed, for AMEND events.
+ * @property cancellation_reason - The reason given when the contract was cancelled.
+ */
+export type ContractHistoryDBType = {
+  property_id: string;
+  history_id: string;
+  agency_id?: string;
+  contract_id?: string;
+  event: ContractEventEnum;
+  from_status?: ContractStatusEnum;
+  to_status: ContractStatusEnum;
+  changed_on: string;
+  requested_by: string;
+  request_id: string;
+  signed_by?: ContractPartyEnum;
+  changes?: ContractFieldChange[];
+  cancellation_reason?: string;
+};
+
+/**
+ * Defines who asked for a contract change.
+ *
+ * @property requestId - The ID of the request, e.g. the API Gateway request ID.
+ * @property requestedBy - The caller that made the request.
+ * @property agencyId - The agency the caller acts for. Absent for requests made by the service itself, e.g. expiry.
+ */
+export type ContractRequestContext = {
+  requestId: string;
+  requestedBy: string;
+  agencyId?: string;
+};
+
+/**
+ * Defines whether a contract request was applied.
+ *
+ * @property ACCEPTED - The request was applied to the contract.
+ * @property REJECTED - The request can never be applied, e.g. because of a version conflict.
+ */
+export enum ContractRequestStatusEnum {
+  ACCEPTED = "ACCEPTED",
+  REJECTED = "REJECTED",
+}
+
+/**
+ * Defines the outcome of a contract request, kept for as long as duplicates of the request are
+ * recognised. The API answers before the request is processed, so callers look it up by the
+ * request ID it returned.
+ *
+ * @property request_id - The ID of the request, as returned by the API.
+ * @property agency_id - The agency the request was made for. Only that agency can read the outcome.
+ * @property request_status - Whether the request was applied.
+ * @property processed_on - The date the request was processed.
+ * @property property_id - The property of the contract, for accepted requests.
+ * @property version - The version of the contract after an accepted request.
+ * @property failure_reason - Why a rejected request failed, e.g. ContractVersionConflict.
+ * @property message - A description of the failure.
+ * @property field_errors - The fields that failed validation, for ValidationFailed.
+ * @property expiration - When the outcome is removed, in seconds since the epoch.
+ */
+export type ContractRequestDBType = {
+  request_id: string;
+  agency_id?: string;
+  request_status: ContractRequestStatusEnum;
+  processed_on: string;
+  property_id?: string;
+  version?: number;
+  failure_reason?: string;
+  message?: string;
+  field_errors?: ContractFieldError[];
+  expiration: number;
+};
+
+/**
+ * Lists the fields an amendment changes, leaving out fields whose value would stay the same.
+ *
+ * @param current - The stored contract.
+ * @param amendments - The supplied fields.
+ * @returns {ContractFieldChange[]} - The changed fields, in the order they were supplied.
+ */
+export function diffContract(
+  current: ContractDBType,
+  amendments: Partial<ContractDBType>
+): ContractFieldChange[] {
+  const changes: ContractFieldChange[] = [];
+  for (const [field, value] of Object.entries(amendments)) {
+    const oldValue = current[field as keyof ContractDBType];
+    if (
+      JSON.stringify(sortedKeys(oldValue)) !== JSON.stringify(sortedKeys(value))
+    ) {
+      changes.push({ field, old_value: oldValue, new_value: value });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Copies a value with the keys of every object sorted, so that values read back from DynamoDB
+ * compare equal to the same values sent in a different order.
+ */
+function sortedKeys(value: unknown): unknown {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((key) => [key, sortedKeys((value as Record<string, unknown>)[key])])
+  );
+}
@@ -0,0 +1,127 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { ContractDBType } from "./Contract";
+
+/**
+ * Renders a contract into a document.
+ */
+export type ContractTemplate = (contract: ContractDBType) => string;
+
+/**
+ * Versioned document templates. A published template must never change: contracts record the
+ * template they were created with, so their documents re-render identically. To change the
+ * document, add a new version and point CURRENT_CONTRACT_TEMPLATE at it.
+ */
+export const CONTRACT_TEMPLATES: Record<string, ContractTemplate> = {
+  v1: (contract) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Contract for ${escapeHtml(contract.property_id)}</title>
+</head>
+<body>
+<h1>Property sale contract</h1>
+<table>
+<tr><th>Contract</th><td>${escapeHtml(contract.contract_id)}</td></tr>
+<tr><th>Property</th><td>${escapeHtml(contract.property_id)}</td></tr>
+<tr><th>Address</th><td>${escapeHtml(formatAddress(contract.address))}</td></tr>
+<tr><th>Seller</th><td>${escapeHtml(contract.seller_name)}</td></tr>
+<tr><th>Buyer</th><td>${escapeHtml(
+    contract.buyer && `${contract.buyer.name} <${contract.buyer.email}>`
+  )}</td></tr>
+<tr><th>Price</th><td>${escapeHtml(
+    contract.price && `${contract.price} ${contract.currency ?? ""}`.trim()
+  )}</td></tr>
+<tr><th>Deposit</th><td>${escapeHtml(
+    contract.deposit && `${contract.deposit} ${contract.currency ?? ""}`.trim()
+  )}</td></tr>
+<tr><th>Closing date</th><td>${escapeHtml(contract.closing_date)}</td></tr>
+<tr><th>Status</th><td>${escapeHtml(contract.contract_status)}</td></tr>
+<tr><th>Created</th><td>${escapeHtml(contract.contract_created)}</td></tr>
+<tr><th>Last modified</th><td>${escapeHtml(
+    contract.contract_last_modified_on
+  )}</td></tr>
+<tr><th>Version</th><td>${escapeHtml(contract.version?.toString())}</td></tr>
+</table>
+</body>
+</html>
+`,
+};
+
+/**
+ * The template new contracts are created with.
+ */
+export const CURRENT_CONTRACT_TEMPLATE = "v1";
+
+/**
+ * The template of contracts created before templates were versioned.
+ */
+const FIRST_CONTRACT_TEMPLATE = "v1";
+
+/**
+ * Returns the template version a contract renders with.
+ *
+ * @param {ContractDBType} contract - The contract.
+ * @returns {string} - The template version.
+ */
+export function templateVersionOf(contract: ContractDBType): string {
+  return contract.document_template ?? FIRST_CONTRACT_TEMPLATE;
+}
+
+/**
+ * Renders a contract with the template it was created with.
+ *
+ * @param {ContractDBType} contract - The contract to render.
+ * @returns {string} - The HTML document.
+ * @throws {Error} - If the contract's template version does not exist.
+ */
+export function renderContractDocument(contract: ContractDBType): string {
+  const version = templateVersionOf(contract);
+  const template = CONTRACT_TEMPLATES[version];
+  if (template === undefined) {
+    throw new Error(`Unknown contract template ${version}`);
+  }
+  return template(contract);
+}
+
+/**
+ * Builds the object key of a rendered contract. Every version of a contract gets its own key,
+ * so a link to an earlier version keeps returning that version.
+ *
+ * @param {ContractDBType} contract - The rendered contract.
+ * @returns {string} - The object key.
+ */
+export function contractDocumentKey(contract: ContractDBType): string {
+  return `contracts/${encodeURIComponent(contract.property_id)}/${
+    contract.contract_id
+  }/v${contract.version ?? 0}-${templateVersionOf(contract)}.html`;
+}
+
+/**
+ * Formats an address as a single line, e.g. 111 Main Street, Anytown, USA.
+ */
+function formatAddress(address: unknown): string | undefined {
+  if (address === null || typeof address !== "object") {
+    return address as string | undefined;
+  }
+  const { number, street, city, country } = address as Record<string, unknown>;
+  return [
+    [number, street].filter((part) => part !== undefined).join(" "),
+    city,
+    country,
+  ]
+    .filter((part) => part !== undefined && part !== "")
+    .join(", ");
+}
+
+/**
+ * Escapes a value for use in HTML text. Missing values render as an empty string.
+ */
+function escapeHtml(value: string | undefined): string {
+  return (value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,243 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import {
+  APIGatewayProxyEvent,
+  APIGatewayProxyResult,
+  Context,
+} from "aws-lambda";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import type { LambdaInterface } from "@aws-lambda-powertools/commons";
+import { MetricUnits } from "@aws-lambda-powertools/metrics";
+import { AGENCY_CLAIM, ContractDBType } from "./Contract";
+import {
+  contractDocumentKey,
+  renderContractDocument,
+  templateVersionOf,
+} from "./contractDocument";
+import { logger, metrics, tracer } from "./powertools";
+
+// Empty configuration for DynamoDB
+const ddbClient = new DynamoDBClient({});
+const DDB_TABLE = process.env.DYNAMODB_TABLE;
+
+// S3_ENDPOINT points at a MinIO server for local testing; MinIO needs path-style URLs
+const s3Client = new S3Client({
+  endpoint: process.env.S3_ENDPOINT,
+  forcePathStyle: process.env.S3_ENDPOINT !== undefined,
+});
+const DOCUMENTS_BUCKET = process.env.DOCUMENTS_BUCKET;
+const DOCUMENT_URL_EXPIRY_SECONDS = Number(
+  process.env.DOCUMENT_URL_EXPIRY_SECONDS ?? "300"
+);
+
+/**
+ * Defines the response of the document route.
+ *
+ * @property document_key - The object key of the rendered document.
+ * @property template - The version of the template the document was rendered with.
+ * @property url - A link to download the document.
+ * @property expires_in - The number of seconds the link is valid for.
+ */
+export type ContractDocumentLink = {
+  document_key: string;
+  template: string;
+  url: string;
+  expires_in: number;
+};
+
+class ContractDocumentFunction implements LambdaInterface {
+  /**
+   * Renders the contract of a property, if its current version was not rendered yet, and
+   * returns a short-lived link to download it.
+   * Resource: /contracts/{property_id}/document
+   *
+   * @public
+   * @async
+   * @method handler
+   * @param {APIGatewayProxyEvent} event - API Gateway Lambda Proxy Input Format
+   * @param {Context} context - The AWS Lambda context.
+   * @returns {Promise<APIGatewayProxyResult>} - API Gateway Lambda Proxy Output Format
+   */
+  @tracer.captureLambdaHandler()
+  @metrics.logMetrics({ captureColdStartMetric: true })
+  @logger.injectLambdaContext({ logEvent: true })
+  public async handler(
+    event: APIGatewayProxyEvent,
+    context: Context
+  ): Promise<APIGatewayProxyResult> {
+    const propertyId = decodeURIComponent(
+      event.pathParameters?.property_id ?? ""
+    );
+    if (propertyId === "") {
+      return this.respond(400, {
+        message: "Path parameter property_id is required",
+      });
+    }
+    const agencyId = this.agencyIdFrom(event);
+    if (agencyId === undefined) {
+      return this.respond(403, {
+        message: "The caller is not assigned to an agency",
+      });
+    }
+    tracer.putAnnotation("property_id", propertyId);
+
+    try {
+      const contract = await this.getContract(propertyId);
+      // Contracts of other agencies are reported as missing, so their properties are not disclosed
+      if (contract === undefined || contract.agency_id !== agencyId) {
+        return this.respond(404, { message: `No contract for ${propertyId}` });
+      }
+      const documentKey = contractDocumentKey(contract);
+      if (contract.document_key !== documentKey) {
+        await this.renderDocument(contract, documentKey);
+      }
+
+      const url = await getSignedUrl(
+        s3Client,
+        new GetObjectCommand({ Bucket: DOCUMENTS_BUCKET, Key: documentKey }),
+        { expiresIn: DOCUMENT_URL_EXPIRY_SECONDS }
+      );
+      const link: ContractDocumentLink = {
+        document_key: documentKey,
+        template: templateVersionOf(contract),
+        url,
+        expires_in: DOCUMENT_URL_EXPIRY_SECONDS,
+      };
+      return this.respond(200, link);
+    } catch (error) {
+      tracer.addErrorAsMetadata(error as Error);
+      logger.error("Error rendering contract document", error as Error);
+      return this.respond(500, { message: "Internal server error" });
+    }
+  }
+
+  /**
+   * Reads the current contract of a property.
+   *
+   * @private
+   * @async
+   * @method getContract
+   * @param {string} propertyId - The ID of the property.
+   * @returns {Promise<ContractDBType | undefined>} - The contract, or undefined if the property has none.
+   */
+  @tracer.captureMethod()
+  private async getContract(
+    propertyId: string
+  ): Promise<ContractDBType | undefined> {
+    const data = await ddbClient.send(
+      new GetItemCommand({
+        TableName: DDB_TABLE,
+        Key: { property_id: { S: propertyId } },
+        ConsistentRead: true,
+      })
+    );
+    return data.Item === undefined
+      ? undefined
+      : (unmarshall(data.Item) as ContractDBType);
+  }
+
+  /**
+   * Renders the contract, stores the document and records its key on the contract. Recording the
+   * key does not change the version of the contract, since its content does not change.
+   *
+   * @private
+   * @async
+   * @method renderDocument
+   * @param {ContractDBType} contract - The contract to render.
+   * @param {string} documentKey - The object key to store the document under.
+   * @returns {Promise<void>}
+   */
+  @tracer.captureMethod()
+  private async renderDocument(
+    contract: ContractDBType,
+    documentKey: string
+  ): Promise<void> {
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: DOCUMENTS_BUCKET,
+        Key: documentKey,
+        Body: renderContractDocument(contract),
+        ContentType: "text/html; charset=utf-8",
+      })
+    );
+
+    try {
+      await ddbClient.send(
+        new UpdateItemCommand({
+          TableName: DDB_TABLE,
+          Key: { property_id: { S: contract.property_id } },
+          UpdateExpression: "set document_key = :k",
+          // Only record the key if the contract was not changed while it was rendered
+          ConditionExpression:
+            contract.version === undefined
+              ? "attribute_not_exists(version)"
+              : "version = :v",
+          ExpressionAttributeValues: {
+            ":k": { S: documentKey },
+            ...(contract.version === undefined
+              ? {}
+              : { ":v": { N: String(contract.version) } }),
+          },
+        })
+      );
+    } catch (error) {
+      if (!(error instanceof ConditionalCheckFailedException)) {
+        throw error;
+      }
+      // The document still matches the version that was read, so the link stays valid
+      logger.info("Contract changed while its document was rendered", {
+        propertyId: contract.property_id,
+      });
+    }
+
+    logger.info("Rendered contract document", {
+      propertyId: contract.property_id,
+      documentKey,
+    });
+    metrics.addMetric("ContractDocumentRendered", MetricUnits.Count, 1);
+  }
+
+  /**
+   * Reads the agency the caller acts for from the custom:agency_id claim of their ID token, as
+   * verified by the agency user pool authorizer.
+   *
+   * @private
+   * @method agencyIdFrom
+   * @param {APIGatewayProxyEvent} event - The API Gateway request.
+   * @returns {string | undefined} - The agency ID, or undefined if the caller is not assigned to one.
+   */
+  private agencyIdFrom(event: APIGatewayProxyEvent): string | undefined {
+    const agencyId = event.requestContext?.authorizer?.claims?.[AGENCY_CLAIM];
+    return typeof agencyId === "string" && agencyId !== ""
+      ? agencyId
+      : undefined;
+  }
+
+  /**
+   * Builds the API Gateway response.
+   *
+   * @private
+   * @method respond
+   * @param {number} statusCode - The HTTP status code.
+   * @param body - The response body, serialised as JSON.
+   * @returns {APIGatewayProxyResult} - API Gateway Lambda Proxy Output Format
+   */
+  private respond(statusCode: number, body: unknown): APIGatewayProxyResult {
+    return { statusCode, body: JSON.stringify(body) };
+  }
+}
+
+export const myFunction = new ContractDocumentFunction();
+export const lambdaHandler = myFunction.handler.bind(myFunction);
@@ -1,130 +1,389 @@
 // Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: MIT-0
-import { Context, SQSEvent, SQSRecord } from "aws-lambda";
-import { marshall } from "@aws-sdk/util-dynamodb";
-import { ContractDBType, ContractStatusEnum, ContractError } from "./Contract";
+import { Context, SQSBatchResponse, SQSEvent, SQSRecord } from "aws-lambda";
+import { convertToAttr, marshall, unmarshall } from "@aws-sdk/util-dynamodb";
 import {
-  DynamoDBClient, UpdateItemCommand, UpdateItemCommandInput, UpdateItemCommandOutput, PutItemCommandInput, PutItemCommandOutput, PutItemCommand
+  AMENDABLE_FIELDS,
+  CONTRACT_TERMS,
+  ContractAgencyMismatchError,
+  ContractDBType,
+  ContractError,
+  ContractEventEnum,
+  ContractRequestContext,
+  ContractRequestDBType,
+  ContractRequestStatusEnum,
+  ContractSignatureRequest,
+  ContractStatusEnum,
+  ContractTransitionError,
+  ContractVersionConflictError,
+  InvalidContractRequestError,
+  buildAgencyScopedTransition,
+  buildContractTransition,
+  buildVersionedTransition,
+  contractVersionOf,
+  diffContract,
+  sellerSearchKeysOf,
+} from "./Contract";
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+  TransactWriteItem,
+  TransactWriteItemsCommand,
+  TransactWriteItemsCommandOutput,
 } from "@aws-sdk/client-dynamodb";
+import {
+  MessageAttributeValue,
+  SQSClient,
+  SendMessageCommand,
+} from "@aws-sdk/client-sqs";
 import { randomUUID } from "crypto";
 import type { LambdaInterface } from "@aws-lambda-powertools/commons";
 import { MetricUnits } from "@aws-lambda-powertools/metrics";
+import {
+  IdempotencyConfig,
+  IdempotencyValidationError,
+  makeIdempotent,
+} from "@aws-lambda-powertools/idempotency";
+import { DynamoDBPersistenceLayer } from "@aws-lambda-powertools/idempotency/dynamodb";
 import { logger, metrics, tracer } from "./powertools";
+import {
+  contractHistoryPut,
+  isTransitionRejected,
+  rejectedContractOf,
+} from "./contractHistory";
+import { contractAmendedOutboxPut, contractOutboxPut } from "./contractOutbox";
+import { validateContractRequest } from "./contractSchemas";
+import { CURRENT_CONTRACT_TEMPLATE } from "./contractDocument";
 
 // Empty configuration for DynamoDB
 const ddbClient = new DynamoDBClient({});
 const DDB_TABLE = process.env.DYNAMODB_TABLE;
+const DDB_REQUESTS_TABLE = process.env.DYNAMODB_REQUESTS_TABLE;
+const CONTRACT_VALIDITY_PERIOD_DAYS = Number(
+  process.env.CONTRACT_VALIDITY_PERIOD_DAYS ?? "30"
+);
 
+// Empty configuration for SQS
+const sqsClient = new SQSClient({});
+const DLQ_URL = process.env.DLQ_URL;
+
+// Duplicate deliveries of the same request return the stored result instead of being processed again.
+// Clients may send an Idempotency-Key header, which only matches requests of the same agency to the
+// same route; otherwise the SQS message ID is used. The outcome of a request is kept for as long.
+const IDEMPOTENCY_EXPIRY_SECONDS = Number(
+  process.env.IDEMPOTENCY_EXPIRY_SECONDS ?? "86400"
+);
+const persistenceStore = new DynamoDBPersistenceLayer({
+  tableName: process.env.IDEMPOTENCY_TABLE ?? "",
+});
+const idempotencyConfig = new IdempotencyConfig({
+  eventKeyJmesPath:
+    "messageAttributes.IdempotencyKey.stringValue && [" +
+    "messageAttributes.AgencyId.stringValue, " +
+    "messageAttributes.HttpMethod.stringValue, " +
+    "messageAttributes.ResourcePath.stringValue, " +
+    "messageAttributes.IdempotencyKey.stringValue" +
+    "] || messageId",
+  payloadValidationJmesPath: "body",
+  expiresAfterSeconds: IDEMPOTENCY_EXPIRY_SECONDS,
+});
 
 class ContractEventHandlerFunction implements LambdaInterface {
+  // Only the record is hashed into the idempotency key; onProcess is called when the record is not a duplicate
+  private readonly processRecordOnce = makeIdempotent(
+    (record: SQSRecord, onProcess: () => void) => {
+      onProcess();
+      return this.processRecord(record);
+    },
+    { persistenceStore, config: idempotencyConfig }
+  );
 
   /**
-   * Handles the SQS event and processes each record.
-   * 
+   * Handles the SQS event and processes each record once. Invalid records are moved to the
+   * dead letter queue; other failed records are reported so only they are retried. The outcome
+   * of each request is recorded for callers to look up.
+   *
    * @public
    * @async
    * @method handler
    * @param {SQSEvent} event - The SQS event containing the records to process.
    * @param {Context} context - The AWS Lambda context.
-   * @returns {Promise<void>} - A promise that resolves when all records have been processed.
+   * @returns {Promise<SQSBatchResponse>} - The records that failed and should be retried.
    */
   @tracer.captureLambdaHandler()
-  @metrics.logMetrics({ captureColdStartMetric: true, throwOnEmptyMetrics: true })
+  @metrics.logMetrics({
+    captureColdStartMetric: true,
+    throwOnEmptyMetrics: true,
+  })
   @logger.injectLambdaContext({ logEvent: true })
   public async handler(
     event: SQSEvent,
     context: Context
-  ): Promise<void> {
+  ): Promise<SQSBatchResponse> {
+    // Track results.
+    const results: SQSBatchResponse = { batchItemFailures: [] };
 
-    // Parse SQS records
+    idempotencyConfig.registerLambdaContext(context);
     for (const sqsRecord of event.Records) {
-      const contract = this.parseRecord(sqsRecord);
-      switch (sqsRecord.messageAttributes.HttpMethod.stringValue) {
-        case "POST":
-          logger.info("Creating a contract", { contract });
-          try {
-            // Save the entry.
-            await this.createContract(contract);
-            tracer.putMetadata("ContractStatus", contract);
-          } catch (error) {
-            tracer.addErrorAsMetadata(error as Error);
-            logger.error("Error during DDB PUT", error as Error);
-            throw error;
-          }
-          break;
-        case "PUT":
-          logger.info("Updating a contract", { contract });
-          try {
-            // Update the entry.
-            await this.updateContract(contract);
-            tracer.putMetadata("ContractStatus", contract);
-          } catch (error) {
-            tracer.addErrorAsMetadata(error as Error);
-            logger.error("Error during DDB UPDATE", error as Error);
-            throw error;
-          }
-          break;
-        default:
-          tracer.addErrorAsMetadata(Error("Request not supported"));
-          logger.error("Error request not supported");
+      try {
+        let duplicate = true;
+        const contract = await this.processRecordOnce(sqsRecord, () => {
+          duplicate = false;
+        });
+        await this.recordOutcome(sqsRecord, {
+          request_status: ContractRequestStatusEnum.ACCEPTED,
+          property_id: contract.property_id,
+          version: contract.version,
+        });
+        if (duplicate) {
+          logger.info("Skipped duplicate contract request", {
+            messageId: sqsRecord.messageId,
+          });
+          metrics.addMetric("ContractRequestDuplicate", MetricUnits.Count, 1);
+        } else {
+          metrics.addMetric("ContractRequestProcessed", MetricUnits.Count, 1);
+        }
+      } catch (error) {
+        const invalidRequest = this.asInvalidRequest(error);
+        if (
+          invalidRequest !== undefined &&
+          (await this.deadLetter(sqsRecord, invalidRequest))
+        ) {
+          continue;
+        }
+        logger.error(
+          `Failed to process message ${sqsRecord.messageId}`,
+          error as Error
+        );
+        metrics.addMetric("ContractRequestFailed", MetricUnits.Count, 1);
+        results.batchItemFailures.push({ itemIdentifier: sqsRecord.messageId });
       }
     }
+
+    return results;
   }
 
   /**
-   * Creates a new contract in the database.
-   * 
+   * Applies the request carried by an SQS record to the contract it refers to.
+   *
    * @private
    * @async
+   * @method processRecord
+   * @param {SQSRecord} sqsRecord - The SQS record containing the contract.
+   * @returns {Promise<ContractDBType>} - The stored contract.
+   * @throws {InvalidContractRequestError} - If the record is invalid or does not match the model of its route.
+   */
+  private async processRecord(sqsRecord: SQSRecord): Promise<ContractDBType> {
+    let result: ContractDBType;
+
+    // Parse SQS record
+    const contract = this.parseRecord(sqsRecord);
+    const request = this.requestContextOf(sqsRecord);
+    const httpMethod = sqsRecord.messageAttributes.HttpMethod?.stringValue;
+    // Only routes other than /contracts send their resource path
+    const resourcePath =
+      sqsRecord.messageAttributes.ResourcePath?.stringValue ?? "/contracts";
+    const route = `${httpMethod} ${resourcePath}`;
+    const fieldErrors = validateContractRequest(route, contract);
+    if (fieldErrors !== undefined && fieldErrors.length > 0) {
+      logger.error("Contract request failed validation", { fieldErrors });
+      metrics.addMetric(
+        "ContractValidationErrors",
+        MetricUnits.Count,
+        fieldErrors.length
+      );
+      throw new InvalidContractRequestError(
+        "ValidationFailed",
+        "Contract request failed validation",
+        fieldErrors
+      );
+    }
+    switch (route) {
+      case "POST /contracts":
+        logger.info("Creating a contract", { contract });
+        try {
+          // Save the entry.
+          result = await this.createContract(contract, request);
+          tracer.putMetadata("ContractStatus", contract);
+        } catch (error) {
+          tracer.addErrorAsMetadata(error as Error);
+          logger.error("Error during DDB PUT", error as Error);
+          throw error;
+        }
+        break;
+      case "PUT /contracts":
+        logger.info("Updating a contract", { contract });
+        try {
+          // Update the entry.
+          result = await this.updateContract(
+            contract,
+            this.expectedVersionOf(sqsRecord, contract),
+            request
+          );
+          tracer.putMetadata("ContractStatus", contract);
+        } catch (error) {
+          tracer.addErrorAsMetadata(error as Error);
+          logger.error("Error during DDB UPDATE", error as Error);
+          throw error;
+        }
+        break;
+      case "PATCH /contracts":
+        logger.info("Amending a contract", { contract });
+        try {
+          // Amend the entry.
+          result = await this.amendContract(
+            contract,
+            this.expectedVersionOf(sqsRecord, contract),
+            request
+          );
+          tracer.putMetadata("ContractStatus", contract);
+        } catch (error) {
+          tracer.addErrorAsMetadata(error as Error);
+          logger.error("Error during DDB UPDATE", error as Error);
+          throw error;
+        }
+        break;
+      case "DELETE /contracts":
+        logger.info("Cancelling a contract", { contract });
+        try {
+          // Cancel the entry.
+          result = await this.cancelContract(contract, request);
+          tracer.putMetadata("ContractStatus", contract);
+        } catch (error) {
+          tracer.addErrorAsMetadata(error as Error);
+          logger.error("Error during DDB UPDATE", error as Error);
+          throw error;
+        }
+        break;
+      case "POST /contracts/signatures":
+        logger.info("Signing a contract", { contract });
+        try {
+          // Record the signature.
+          result = await this.signContract(
+            contract as unknown as ContractSignatureRequest,
+            request
+          );
+          tracer.putMetadata("ContractStatus", contract);
+        } catch (error) {
+          tracer.addErrorAsMetadata(error as Error);
+          logger.error("Error during DDB UPDATE", error as Error);
+          throw error;
+        }
+        break;
+      default:
+        tracer.addErrorAsMetadata(Error("Request not supported"));
+        logger.error("Error request not supported");
+        throw new InvalidContractRequestError(
+          "UnsupportedMethod",
+          `Request ${route} is not supported`
+        );
+    }
+    return result;
+  }
+
+  /**
+   * Creates a new contract in the database. Also used by the bulk import.
+   *
+   * @public
+   * @async
    * @method createContract
    * @param {ContractDBType} contract - The contract to be created.
-   * @returns {Promise<void>} - A promise that resolves when the contract is created.
+   * @param {ContractRequestContext} request - Who requested the change, recorded in the contract history.
+   * @returns {Promise<ContractDBType>} - The created contract.
    * @throws {ContractError} - If there is an error during the creation process.
+   * @throws {ContractTransitionError} - If the current contract status does not allow the change.
+   * @throws {ContractAgencyMismatchError} - If the contract is managed by another agency.
    */
   @tracer.captureMethod()
-  private async createContract(contract: ContractDBType): Promise<void> {
-
+  public async createContract(
+    contract: ContractDBType,
+    request: ContractRequestContext
+  ): Promise<ContractDBType> {
     tracer.putAnnotation("property_id", contract.property_id);
 
     // Construct the DDB Table record
     logger.info("Constructing DB Entry from contract", { contract });
     const createDate = new Date();
+    const agencyId = this.agencyIdOf(request);
+    const current = await this.getContract(contract.property_id, agencyId);
+    const transition = buildAgencyScopedTransition(
+      buildVersionedTransition(
+        buildContractTransition(
+          current,
+          ContractEventEnum.CREATE,
+          { now: createDate },
+          contract.property_id
+        ),
+        contractVersionOf(current)
+      ),
+      current,
+      agencyId
+    );
     const contractId = randomUUID();
+    const expiryDate = new Date(createDate);
+    expiryDate.setUTCDate(
+      expiryDate.getUTCDate() + CONTRACT_VALIDITY_PERIOD_DAYS
+    );
     const dbEntry: ContractDBType = {
       property_id: contract["property_id"],
+      agency_id: agencyId,
       contract_created: createDate.toISOString(),
       contract_last_modified_on: createDate.toISOString(),
       contract_id: contractId,
       address: contract["address"],
       seller_name: contract["seller_name"],
-      contract_status: ContractStatusEnum.DRAFT,
+      ...sellerSearchKeysOf(contract["seller_name"]),
+      ...this.fieldsOf(contract, CONTRACT_TERMS),
+      contract_status: transition.to,
+      expires_on: expiryDate.toISOString(),
+      version: transition.version,
+      // The contract document keeps rendering with this template
+      document_template: CURRENT_CONTRACT_TEMPLATE,
     };
 
     // Insert record into DDB
     logger.info("Record to insert", { dbEntry });
-    // Build the Command objects
-    const ddbPutCommandInput: PutItemCommandInput = {
-      TableName: DDB_TABLE,
-      Item: marshall(dbEntry, { removeUndefinedValues: true }),
-      ConditionExpression: 'attribute_not_exists(property_id) OR attribute_exists(contract_status) AND contract_status IN (:CANCELLED, :CLOSED, :EXPIRED)',
-      ExpressionAttributeValues: {
-        ':CANCELLED': { S: ContractStatusEnum.CANCELLED },
-        ':CLOSED': { S: ContractStatusEnum.CLOSED },
-        ':EXPIRED': { S: ContractStatusEnum.EXPIRED },
-      }
+    // Build the transaction items
+    const ddbPut: TransactWriteItem = {
+      Put: {
+        TableName: DDB_TABLE,
+        Item: marshall(dbEntry, { removeUndefinedValues: true }),
+        ConditionExpression: transition.conditionExpression,
+        ExpressionAttributeValues: transition.expressionAttributeValues,
+      },
     };
-    const ddbPutCommand = new PutItemCommand(ddbPutCommandInput);
+    const historyPut = contractHistoryPut({
+      property_id: dbEntry.property_id,
+      agency_id: agencyId,
+      contract_id: contractId,
+      event: ContractEventEnum.CREATE,
+      from_status: current?.contract_status,
+      to_status: transition.to,
+      changed_on: createDate.toISOString(),
+      requested_by: request.requestedBy,
+      request_id: request.requestId,
+    });
+    const outboxPut = contractOutboxPut(
+      dbEntry,
+      request,
+      createDate.toISOString()
+    );
 
     // Send the command
-    const ddbPutCommandOutput: PutItemCommandOutput = await ddbClient.send(
-      ddbPutCommand
+    const ddbPutCommandOutput = await this.sendTransition(
+      dbEntry.property_id,
+      ContractEventEnum.CREATE,
+      current?.contract_status,
+      [ddbPut, historyPut, outboxPut]
     );
     if (ddbPutCommandOutput.$metadata.httpStatusCode != 200) {
-      let error: ContractError = {
+      const error: ContractError = {
         propertyId: dbEntry.property_id,
         name: "ContractDBSaveError",
         message:
-          "Response error code: " + ddbPutCommandOutput.$metadata.httpStatusCode,
+          "Response error code: " +
+          ddbPutCommandOutput.$metadata.httpStatusCode,
         object: ddbPutCommandOutput.$metadata,
       };
       throw error;
@@ -135,46 +394,119 @@ class ContractEventHandlerFunction implements LambdaInterface {
       metadata: ddbPutCommandOutput.$metadata,
     });
     metrics.addMetric("ContractCreated", MetricUnits.Count, 1);
+    return dbEntry;
   }
 
   /**
-   * Updates a contract in the database.
-   * 
+   * Updates the terms of a DRAFT contract and sends it to the seller and the buyer for signing.
+   *
    * @private
    * @async
    * @method updateContract
    * @param {ContractDBType} contract - The contract to be updated.
-   * @returns {Promise<void>} - A promise that resolves when the update is complete.
+   * @param {number} expectedVersion - The version of the contract the update is based on.
+   * @param {ContractRequestContext} request - Who requested the change, recorded in the contract history.
+   * @returns {Promise<ContractDBType>} - The updated contract.
+   * @throws {ContractTransitionError} - If the current contract status does not allow the change.
+   * @throws {ContractVersionConflictError} - If the contract was changed since the expected version.
+   * @throws {ContractAgencyMismatchError} - If the contract is managed by another agency.
    */
   @tracer.captureMethod()
-  private async updateContract(contract: ContractDBType): Promise<void> {
+  private async updateContract(
+    contract: ContractDBType,
+    expectedVersion: number,
+    request: ContractRequestContext
+  ): Promise<ContractDBType> {
     const modifiedDate = new Date();
+    const agencyId = this.agencyIdOf(request);
+    const current = await this.getContract(contract.property_id, agencyId);
+    if (
+      current !== undefined &&
+      contractVersionOf(current) !== expectedVersion
+    ) {
+      throw new ContractVersionConflictError(
+        contract.property_id,
+        expectedVersion,
+        contractVersionOf(current)
+      );
+    }
+    const transition = buildAgencyScopedTransition(
+      buildVersionedTransition(
+        buildContractTransition(
+          current,
+          ContractEventEnum.REQUEST_SIGNATURES,
+          { now: modifiedDate },
+          contract.property_id
+        ),
+        expectedVersion
+      ),
+      current,
+      agencyId
+    );
+    const terms = this.fieldsOf(contract, CONTRACT_TERMS);
     const dbEntry: ContractDBType = {
-      contract_id: contract.contract_id,
+      contract_id: current?.contract_id,
       property_id: contract.property_id,
-      contract_status: ContractStatusEnum.APPROVED,
+      ...terms,
+      signatures: {},
+      contract_status: transition.to,
       contract_last_modified_on: modifiedDate.toISOString(),
+      version: transition.version,
     };
 
-    logger.info("Record to update", { dbEntry })
-    const ddbUpdateCommandInput: UpdateItemCommandInput = {
-      TableName: DDB_TABLE,
-      Key: { property_id: { S: dbEntry.property_id } },
-      UpdateExpression: "set contract_status = :t, modified_date = :m",
-      ConditionExpression: 'attribute_exists(property_id) AND contract_status = :DRAFT',
-      ExpressionAttributeValues: {
-        ":t": { S: dbEntry.contract_status as string },
-        ":m": { S: dbEntry.contract_last_modified_on as string },
-        ':DRAFT': { S: ContractStatusEnum.DRAFT },
+    logger.info("Record to update", { dbEntry });
+    const ddbUpdate: TransactWriteItem = {
+      Update: {
+        TableName: DDB_TABLE,
+        Key: { property_id: { S: dbEntry.property_id } },
+        // Only the terms sent with the update are changed
+        UpdateExpression: [
+          "set contract_status = :t, contract_last_modified_on = :m, signatures = :signatures, version = :version, agency_id = :agency_id",
+        ]
+          .concat(Object.keys(terms).map((term) => `${term} = :${term}`))
+          .join(", "),
+        ConditionExpression: transition.conditionExpression,
+        ExpressionAttributeValues: {
+          ":t": { S: dbEntry.contract_status as string },
+          ":m": { S: dbEntry.contract_last_modified_on as string },
+          ":signatures": { M: {} },
+          ":version": { N: String(dbEntry.version) },
+          ...Object.fromEntries(
+            Object.entries(terms).map(([term, value]) => [
+              `:${term}`,
+              convertToAttr(value),
+            ])
+          ),
+          ...transition.expressionAttributeValues,
+        },
+        // Tells a version conflict apart from an illegal transition when the write is rejected
+        ReturnValuesOnConditionCheckFailure: "ALL_OLD",
       },
     };
-
-
-    const ddbUpdateCommand = new UpdateItemCommand(ddbUpdateCommandInput);
+    const historyPut = contractHistoryPut({
+      property_id: dbEntry.property_id,
+      agency_id: agencyId,
+      contract_id: dbEntry.contract_id,
+      event: ContractEventEnum.REQUEST_SIGNATURES,
+      from_status: current?.contract_status,
+      to_status: transition.to,
+      changed_on: modifiedDate.toISOString(),
+      requested_by: request.requestedBy,
+      request_id: request.requestId,
+    });
+    const outboxPut = contractOutboxPut(
+      { ...current, ...dbEntry },
+      request,
+      modifiedDate.toISOString()
+    );
 
     // Send the command
-    const ddbUpdateCommandOutput: UpdateItemCommandOutput = await ddbClient.send(
-      ddbUpdateCommand
+    const ddbUpdateCommandOutput = await this.sendTransition(
+      dbEntry.property_id,
+      ContractEventEnum.REQUEST_SIGNATURES,
+      current?.contract_status,
+      [ddbUpdate, historyPut, outboxPut],
+      expectedVersion
     );
     if (ddbUpdateCommandOutput.$metadata.httpStatusCode != 200) {
       const error: ContractError = {
@@ -192,16 +524,753 @@ class ContractEventHandlerFunction implements LambdaInterface {
       contractId: dbEntry.contract_id,
       metdata: ddbUpdateCommandOutput.$metadata,
     });
-    metrics.addMetric('ContractUpdated', MetricUnits.Count, 1);
+    metrics.addMetric("ContractUpdated", MetricUnits.Count, 1);
+    return dbEntry;
+  }
+
+  /**
+   * Records the signature of a party on a contract that is PENDING_SIGNATURES. The last
+   * required signature approves the contract.
+   *
+   * @private
+   * @async
+   * @method signContract
+   * @param {ContractSignatureRequest} signature - The party that signed and the signature reference.
+   * @param {ContractRequestContext} request - Who requested the change, recorded in the contract history.
+   * @returns {Promise<ContractDBType>} - The signed contract.
+   * @throws {ContractError} - If there is an error during the update.
+   * @throws {ContractTransitionError} - If the contract is not awaiting signatures or the party has already signed.
+   * @throws {ContractAgencyMismatchError} - If the contract is managed by another agency.
+   */
+  @tracer.captureMethod()
+  private async signContract(
+    signature: ContractSignatureRequest,
+    request: ContractRequestContext
+  ): Promise<ContractDBType> {
+    const modifiedDate = new Date();
+    const agencyId = this.agencyIdOf(request);
+    const current = await this.getContract(signature.property_id, agencyId);
+    const transition = buildAgencyScopedTransition(
+      buildVersionedTransition(
+        buildContractTransition(
+          current,
+          ContractEventEnum.SIGN,
+          { now: modifiedDate, signedBy: signature.party },
+          signature.property_id
+        ),
+        contractVersionOf(current)
+      ),
+      current,
+      agencyId
+    );
+    const dbEntry: ContractDBType = {
+      property_id: signature.property_id,
+      contract_id: current?.contract_id,
+      signatures: {
+        ...current?.signatures,
+        [signature.party]: {
+          signed_on: modifiedDate.toISOString(),
+          signature_reference: signature.signature_reference,
+        },
+      },
+      contract_status: transition.to,
+      contract_last_modified_on: modifiedDate.toISOString(),
+      version: transition.version,
+    };
+
+    logger.info("Record to sign", { dbEntry });
+    const ddbUpdate: TransactWriteItem = {
+      Update: {
+        TableName: DDB_TABLE,
+        Key: { property_id: { S: dbEntry.property_id } },
+        UpdateExpression: `set signatures.${signature.party} = :s, contract_status = :t, contract_last_modified_on = :m, version = :version, agency_id = :agency_id`,
+        ConditionExpression: transition.conditionExpression,
+        ExpressionAttributeValues: {
+          ":s": convertToAttr(dbEntry.signatures?.[signature.party]),
+          ":t": { S: dbEntry.contract_status as string },
+          ":m": { S: dbEntry.contract_last_modified_on as string },
+          ":version": { N: String(dbEntry.version) },
+          ...transition.expressionAttributeValues,
+        },
+      },
+    };
+    const historyPut = contractHistoryPut({
+      property_id: dbEntry.property_id,
+      agency_id: agencyId,
+      contract_id: dbEntry.contract_id,
+      event: ContractEventEnum.SIGN,
+      from_status: current?.contract_status,
+      to_status: transition.to,
+      changed_on: modifiedDate.toISOString(),
+      requested_by: request.requestedBy,
+      request_id: request.requestId,
+      signed_by: signature.party,
+    });
+    const outboxPut = contractOutboxPut(
+      { ...current, ...dbEntry },
+      request,
+      modifiedDate.toISOString()
+    );
+
+    // Send the command
+    const ddbUpdateCommandOutput = await this.sendTransition(
+      dbEntry.property_id,
+      ContractEventEnum.SIGN,
+      current?.contract_status,
+      [ddbUpdate, historyPut, outboxPut]
+    );
+    if (ddbUpdateCommandOutput.$metadata.httpStatusCode != 200) {
+      const error: ContractError = {
+        propertyId: dbEntry.property_id,
+        name: "ContractDBSignError",
+        message:
+          "Response error code: " +
+          ddbUpdateCommandOutput.$metadata.httpStatusCode,
+        object: ddbUpdateCommandOutput.$metadata,
+      };
+      throw error;
+    }
+
+    logger.info("Signed record for contract", {
+      contractId: dbEntry.contract_id,
+      party: signature.party,
+      metadata: ddbUpdateCommandOutput.$metadata,
+    });
+    metrics.addMetric("ContractSigned", MetricUnits.Count, 1);
+    if (dbEntry.contract_status === ContractStatusEnum.APPROVED) {
+      metrics.addMetric("ContractApproved", MetricUnits.Count, 1);
+    }
+    return dbEntry;
+  }
+
+  /**
+   * Amends the supplied fields of a DRAFT contract and publishes a ContractAmended event listing
+   * what changed. The status of the contract does not change.
+   *
+   * @private
+   * @async
+   * @method amendContract
+   * @param {ContractDBType} contract - The property ID and the fields to amend.
+   * @param {number} expectedVersion - The version of the contract the amendment is based on.
+   * @param {ContractRequestContext} request - Who requested the change, recorded in the contract history.
+   * @returns {Promise<ContractDBType>} - The amended contract.
+   * @throws {InvalidContractRequestError} - If no amendable field was supplied.
+   * @throws {ContractTransitionError} - If the contract is not a DRAFT.
+   * @throws {ContractVersionConflictError} - If the contract was changed since the expected version.
+   * @throws {ContractAgencyMismatchError} - If the contract is managed by another agency.
+   */
+  @tracer.captureMethod()
+  private async amendContract(
+    contract: ContractDBType,
+    expectedVersion: number,
+    request: ContractRequestContext
+  ): Promise<ContractDBType> {
+    const amendments = this.fieldsOf(contract, AMENDABLE_FIELDS);
+    if (Object.keys(amendments).length === 0) {
+      throw new InvalidContractRequestError(
+        "ValidationFailed",
+        "Contract amendment failed validation",
+        [
+          {
+            field: "(body)",
+            message: `must contain at least one of ${AMENDABLE_FIELDS.join(
+              ", "
+            )}`,
+          },
+        ]
+      );
+    }
+    const modifiedDate = new Date();
+    const agencyId = this.agencyIdOf(request);
+    const current = await this.getContract(contract.property_id, agencyId);
+    if (
+      current !== undefined &&
+      contractVersionOf(current) !== expectedVersion
+    ) {
+      throw new ContractVersionConflictError(
+        contract.property_id,
+        expectedVersion,
+        contractVersionOf(current)
+      );
+    }
+    const transition = buildAgencyScopedTransition(
+      buildVersionedTransition(
+        buildContractTransition(
+          current,
+          ContractEventEnum.AMEND,
+          { now: modifiedDate },
+          contract.property_id
+        ),
+        expectedVersion
+      ),
+      current,
+      agencyId
+    );
+    const changes = diffContract(current as ContractDBType, amendments);
+    if (changes.length === 0) {
+      logger.info("Amendment does not change the contract", {
+        propertyId: contract.property_id,
+      });
+      return current as ContractDBType;
+    }
+    const changed = Object.fromEntries(
+      changes.map((change) => [change.field, change.new_value])
+    );
+    // A new seller name moves the contract in the seller index; an empty one takes it out
+    const sellerSearchKeys =
+      "seller_name" in changed
+        ? sellerSearchKeysOf(changed.seller_name as string)
+        : {};
+    const unindexed =
+      "seller_name" in changed && Object.keys(sellerSearchKeys).length === 0;
+    const { seller_search_name, seller_initial, ...unchanged } =
+      current as ContractDBType;
+    const dbEntry: ContractDBType = {
+      ...unchanged,
+      ...(unindexed ? {} : { seller_search_name, seller_initial }),
+      ...changed,
+      ...sellerSearchKeys,
+      contract_last_modified_on: modifiedDate.toISOString(),
+      version: transition.version,
+    };
+
+    logger.info("Record to amend", { dbEntry, changes });
+    const ddbUpdate: TransactWriteItem = {
+      Update: {
+        TableName: DDB_TABLE,
+        Key: { property_id: { S: dbEntry.property_id } },
+        // Only the fields that change are written
+        UpdateExpression: [
+          "set contract_last_modified_on = :m, version = :version, agency_id = :agency_id",
+        ]
+          .concat(changes.map((change) => `${change.field} = :${change.field}`))
+          .concat(
+            Object.keys(sellerSearchKeys).map((key) => `${key} = :${key}`)
+          )
+          .join(", ")
+          .concat(
+            unindexed ? " remove seller_search_name, seller_initial" : ""
+          ),
+        ConditionExpression: transition.conditionExpression,
+        ExpressionAttributeValues: {
+          ":m": { S: dbEntry.contract_last_modified_on as string },
+          ":version": { N: String(dbEntry.version) },
+          ...Object.fromEntries(
+            changes.map((change) => [
+              `:${change.field}`,
+              convertToAttr(change.new_value),
+            ])
+          ),
+          ...Object.fromEntries(
+            Object.entries(sellerSearchKeys).map(([key, value]) => [
+              `:${key}`,
+              { S: value },
+            ])
+          ),
+          ...transition.expressionAttributeValues,
+        },
+        // Tells a version conflict apart from an illegal transition when the write is rejected
+        ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+      },
+    };
+    const historyPut = contractHistoryPut({
+      property_id: dbEntry.property_id,
+      agency_id: agencyId,
+      contract_id: dbEntry.contract_id,
+      event: ContractEventEnum.AMEND,
+      from_status: current?.contract_status,
+      to_status: transition.to,
+      changed_on: modifiedDate.toISOString(),
+      requested_by: request.requestedBy,
+      request_id: request.requestId,
+      changes,
+    });
+    // Subscribers keep a copy of the terms, so amendments are published even though the status is unchanged
+    const outboxPut = contractOutboxPut(
+      dbEntry,
+      request,
+      modifiedDate.toISOString()
+    );
+    const amendedPut = contractAmendedOutboxPut(
+      dbEntry,
+      changes,
+      request,
+      modifiedDate.toISOString()
+    );
+
+    // Send the command
+    const ddbUpdateCommandOutput = await this.sendTransition(
+      dbEntry.property_id,
+      ContractEventEnum.AMEND,
+      current?.contract_status,
+      [ddbUpdate, historyPut, outboxPut, amendedPut],
+      expectedVersion
+    );
+    if (ddbUpdateCommandOutput.$metadata.httpStatusCode != 200) {
+      const error: ContractError = {
+        propertyId: dbEntry.property_id,
+        name: "ContractDBAmendError",
+        message:
+          "Response error code: " +
+          ddbUpdateCommandOutput.$metadata.httpStatusCode,
+        object: ddbUpdateCommandOutput.$metadata,
+      };
+      throw error;
+    }
+
+    logger.info("Amended record for contract", {
+      contractId: dbEntry.contract_id,
+      metadata: ddbUpdateCommandOutput.$metadata,
+    });
+    metrics.addMetric("ContractAmended", MetricUnits.Count, 1);
+    return dbEntry;
+  }
+
+  /**
+   * Cancels a DRAFT, PENDING_SIGNATURES or APPROVED contract in the database.
+   *
+   * @private
+   * @async
+   * @method cancelContract
+   * @param {ContractDBType} contract - The contract to be cancelled, including the cancellation reason.
+   * @param {ContractRequestContext} request - Who requested the change, recorded in the contract history.
+   * @returns {Promise<ContractDBType>} - The cancelled contract.
+   * @throws {ContractError} - If there is an error during the cancellation process.
+   * @throws {ContractTransitionError} - If the current contract status does not allow the change.
+   * @throws {ContractAgencyMismatchError} - If the contract is managed by another agency.
+   */
+  @tracer.captureMethod()
+  private async cancelContract(
+    contract: ContractDBType,
+    request: ContractRequestContext
+  ): Promise<ContractDBType> {
+    const modifiedDate = new Date();
+    const agencyId = this.agencyIdOf(request);
+    const current = await this.getContract(contract.property_id, agencyId);
+    const transition = buildAgencyScopedTransition(
+      buildVersionedTransition(
+        buildContractTransition(
+          current,
+          ContractEventEnum.CANCEL,
+          { now: modifiedDate },
+          contract.property_id
+        ),
+        contractVersionOf(current)
+      ),
+      current,
+      agencyId
+    );
+    const dbEntry: ContractDBType = {
+      property_id: contract.property_id,
+      contract_id: current?.contract_id,
+      contract_status: transition.to,
+      contract_last_modified_on: modifiedDate.toISOString(),
+      cancellation_reason: contract.cancellation_reason,
+      version: transition.version,
+    };
+
+    logger.info("Record to cancel", { dbEntry });
+    const ddbUpdate: TransactWriteItem = {
+      Update: {
+        TableName: DDB_TABLE,
+        Key: { property_id: { S: dbEntry.property_id } },
+        UpdateExpression:
+          "set contract_status = :t, contract_last_modified_on = :m, cancellation_reason = :r, version = :version, agency_id = :agency_id",
+        ConditionExpression: transition.conditionExpression,
+        ExpressionAttributeValues: {
+          ":t": { S: dbEntry.contract_status as string },
+          ":m": { S: dbEntry.contract_last_modified_on as string },
+          ":r": { S: dbEntry.cancellation_reason ?? "" },
+          ":version": { N: String(dbEntry.version) },
+          ...transition.expressionAttributeValues,
+        },
+      },
+    };
+    const historyPut = contractHistoryPut({
+      property_id: dbEntry.property_id,
+      agency_id: agencyId,
+      contract_id: dbEntry.contract_id,
+      event: ContractEventEnum.CANCEL,
+      from_status: current?.contract_status,
+      to_status: transition.to,
+      changed_on: modifiedDate.toISOString(),
+      requested_by: request.requestedBy,
+      request_id: request.requestId,
+      cancellation_reason: dbEntry.cancellation_reason,
+    });
+    const outboxPut = contractOutboxPut(
+      { ...current, ...dbEntry },
+      request,
+      modifiedDate.toISOString()
+    );
+
+    // Send the command
+    const ddbUpdateCommandOutput = await this.sendTransition(
+      dbEntry.property_id,
+      ContractEventEnum.CANCEL,
+      current?.contract_status,
+      [ddbUpdate, historyPut, outboxPut]
+    );
+    if (ddbUpdateCommandOutput.$metadata.httpStatusCode != 200) {
+      const error: ContractError = {
+        propertyId: dbEntry.property_id,
+        name: "ContractDBCancelError",
+        message:
+          "Response error code: " +
+          ddbUpdateCommandOutput.$metadata.httpStatusCode,
+        object: ddbUpdateCommandOutput.$metadata,
+      };
+      throw error;
+    }
+
+    logger.info("Cancelled record for contract", {
+      propertyId: dbEntry.property_id,
+      metadata: ddbUpdateCommandOutput.$metadata,
+    });
+    metrics.addMetric("ContractCancelled", MetricUnits.Count, 1);
+    return dbEntry;
+  }
+
+  /**
+   * Picks the given fields that were sent with a request.
+   *
+   * @private
+   * @method fieldsOf
+   * @param {ContractDBType} contract - The contract from the request.
+   * @param fields - The fields to pick, e.g. CONTRACT_TERMS.
+   * @returns {Partial<ContractDBType>} - The fields that are set in the request.
+   */
+  private fieldsOf(
+    contract: ContractDBType,
+    fields: ReadonlyArray<keyof ContractDBType>
+  ): Partial<ContractDBType> {
+    const picked: Partial<ContractDBType> = {};
+    for (const field of fields) {
+      if (contract[field] !== undefined) {
+        Object.assign(picked, { [field]: contract[field] });
+      }
+    }
+    return picked;
+  }
+
+  /**
+   * Reads the current contract of a property on behalf of an agency. A contract without an agency
+   * is returned to any agency, which takes it over with its next write.
+   *
+   * @private
+   * @async
+   * @method getContract
+   * @param {string} propertyId - The ID of the property.
+   * @param {string} agencyId - The agency the request was made for.
+   * @returns {Promise<ContractDBType | undefined>} - The contract, or undefined if the property has none.
+   * @throws {ContractAgencyMismatchError} - If the contract is managed by another agency.
+   */
+  @tracer.captureMethod()
+  private async getContract(
+    propertyId: string,
+    agencyId: string
+  ): Promise<ContractDBType | undefined> {
+    const data = await ddbClient.send(
+      new GetItemCommand({
+        TableName: DDB_TABLE,
+        Key: { property_id: { S: propertyId } },
+        ConsistentRead: true,
+      })
+    );
+    if (data.Item === undefined) {
+      return undefined;
+    }
+    const contract = unmarshall(data.Item) as ContractDBType;
+    if (contract.agency_id === undefined) {
+      // Contracts written before agencies were kept are adopted by the first agency acting on them
+      logger.info("Adopting a contract without an agency", {
+        propertyId,
+        agencyId,
+      });
+      metrics.addMetric("ContractAdopted", MetricUnits.Count, 1);
+      return contract;
+    }
+    if (contract.agency_id !== agencyId) {
+      throw new ContractAgencyMismatchError(propertyId, agencyId);
+    }
+    return contract;
+  }
+
+  /**
+   * Writes a contract transition, its history record and its outbox entry in a single
+   * transaction, reporting a failed transition condition as an illegal transition.
+   *
+   * @private
+   * @async
+   * @method sendTransition
+   * @param {string} propertyId - The ID of the property being written.
+   * @param {ContractEventEnum} event - The event that triggered the write.
+   * @param {ContractStatusEnum} from - The status the contract was read in, if any.
+   * @param {TransactWriteItem[]} items - The conditional contract write, followed by the history record and the outbox entry.
+   * @param {number} expectedVersion - The version the caller based the write on, if any.
+   * @returns {Promise<TransactWriteItemsCommandOutput>} - The output of the transaction.
+   * @throws {ContractTransitionError} - If the stored contract does not allow the transition.
+   * @throws {ContractVersionConflictError} - If the stored contract is no longer at the version the caller expected.
+   */
+  private async sendTransition(
+    propertyId: string,
+    event: ContractEventEnum,
+    from: ContractStatusEnum | undefined,
+    items: TransactWriteItem[],
+    expectedVersion?: number
+  ): Promise<TransactWriteItemsCommandOutput> {
+    try {
+      return await ddbClient.send(
+        new TransactWriteItemsCommand({ TransactItems: items })
+      );
+    } catch (error) {
+      const rejected = rejectedContractOf(error);
+      if (
+        expectedVersion !== undefined &&
+        rejected !== undefined &&
+        contractVersionOf(rejected) !== expectedVersion
+      ) {
+        throw new ContractVersionConflictError(
+          propertyId,
+          expectedVersion,
+          contractVersionOf(rejected)
+        );
+      }
+      if (isTransitionRejected(error)) {
+        // The contract changed between the read and the write
+        throw new ContractTransitionError(propertyId, event, from);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the version an update is based on: the version in the body or, failing that, the
+   * If-Match header, e.g. "3".
+   *
+   * @private
+   * @method expectedVersionOf
+   * @param {SQSRecord} record - The SQS record containing the contract.
+   * @param {ContractDBType} contract - The contract from the SQS record.
+   * @returns {number} - The expected version.
+   * @throws {InvalidContractRequestError} - If the request has no version or the If-Match header is not a version.
+   */
+  private expectedVersionOf(
+    record: SQSRecord,
+    contract: ContractDBType
+  ): number {
+    if (contract.version !== undefined) {
+      return contract.version;
+    }
+    const ifMatch = record.messageAttributes.IfMatch?.stringValue;
+    const version = /^(?:W\/)?"?(\d+)"?$/.exec(ifMatch ?? "")?.[1];
+    if (version === undefined) {
+      const fieldError =
+        ifMatch === undefined
+          ? {
+              field: "version",
+              message: "is required, in the body or the If-Match header",
+            }
+          : { field: "If-Match", message: "must be a contract version" };
+      throw new InvalidContractRequestError(
+        "ValidationFailed",
+        "Contract update failed validation",
+        [fieldError]
+      );
+    }
+    return Number(version);
+  }
+
+  /**
+   * Reads who requested the change from the SQS message attributes set by the API.
+   *
+   * @private
+   * @method requestContextOf
+   * @param {SQSRecord} record - The SQS record containing the contract.
+   * @returns {ContractRequestContext} - The request ID and the caller.
+   */
+  private requestContextOf(record: SQSRecord): ContractRequestContext {
+    return {
+      requestId:
+        record.messageAttributes.RequestId?.stringValue ?? record.messageId,
+      requestedBy:
+        record.messageAttributes.RequestedBy?.stringValue ?? "unknown",
+      // Set by the API from the agency claim of the caller's ID token, never from the request itself
+      agencyId: record.messageAttributes.AgencyId?.stringValue,
+    };
+  }
+
+  /**
+   * Reads the agency a request was made for. Every contract request is scoped to an agency.
+   *
+   * @private
+   * @method agencyIdOf
+   * @param {ContractRequestContext} request - The request context.
+   * @returns {string} - The agency ID.
+   * @throws {InvalidContractRequestError} - If the request was not made for an agency.
+   */
+  private agencyIdOf(request: ContractRequestContext): string {
+    if (request.agencyId === undefined || request.agencyId === "") {
+      throw new InvalidContractRequestError(
+        "ValidationFailed",
+        "Contract request failed validation",
+        [{ field: "AgencyId", message: "is required" }]
+      );
+    }
+    return request.agencyId;
+  }
+
+  /**
+   * Tells whether an error means the request can never succeed.
+   *
+   * @private
+   * @method asInvalidRequest
+   * @param error - The error raised while processing the record.
+   * @returns {InvalidContractRequestError | undefined} - The error as an invalid request, or undefined if a retry may succeed.
+   */
+  private asInvalidRequest(
+    error: unknown
+  ): InvalidContractRequestError | undefined {
+    if (error instanceof InvalidContractRequestError) {
+      return error;
+    }
+    if (error instanceof ContractVersionConflictError) {
+      return new InvalidContractRequestError(
+        "ContractVersionConflict",
+        error.message
+      );
+    }
+    if (error instanceof ContractTransitionError) {
+      return new InvalidContractRequestError(
+        "ContractTransition",
+        error.message
+      );
+    }
+    if (error instanceof ContractAgencyMismatchError) {
+      return new InvalidContractRequestError("AgencyMismatch", error.message);
+    }
+    if (error instanceof IdempotencyValidationError) {
+      return new InvalidContractRequestError(
+        "IdempotencyKeyReused",
+        "Idempotency-Key was already used for a different request"
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Records the outcome of the request carried by an SQS record, keyed by its request ID.
+   *
+   * @private
+   * @async
+   * @method recordOutcome
+   * @param {SQSRecord} record - The processed SQS record.
+   * @param outcome - Whether the request was applied, and its result or failure.
+   * @returns {Promise<void>} - A promise that resolves when the outcome is stored.
+   */
+  @tracer.captureMethod()
+  private async recordOutcome(
+    record: SQSRecord,
+    outcome: Omit<
+      ContractRequestDBType,
+      "request_id" | "agency_id" | "processed_on" | "expiration"
+    >
+  ): Promise<void> {
+    const request = this.requestContextOf(record);
+    const now = new Date();
+    const item: ContractRequestDBType = {
+      ...outcome,
+      request_id: request.requestId,
+      agency_id: request.agencyId,
+      processed_on: now.toISOString(),
+      expiration: Math.floor(now.getTime() / 1000) + IDEMPOTENCY_EXPIRY_SECONDS,
+    };
+    await ddbClient.send(
+      new PutItemCommand({
+        TableName: DDB_REQUESTS_TABLE,
+        Item: marshall(item, { removeUndefinedValues: true }),
+      })
+    );
+  }
+
+  /**
+   * Records the rejection of an invalid record for the caller, then moves the record to the dead
+   * letter queue, keeping its attributes and adding the failure reason and any field errors.
+   *
+   * @private
+   * @async
+   * @method deadLetter
+   * @param {SQSRecord} record - The invalid SQS record.
+   * @param {InvalidContractRequestError} error - Why the record is invalid.
+   * @returns {Promise<boolean>} - False if the record could not be moved and must be retried instead.
+   */
+  @tracer.captureMethod()
+  private async deadLetter(
+    record: SQSRecord,
+    error: InvalidContractRequestError
+  ): Promise<boolean> {
+    const messageAttributes: Record<string, MessageAttributeValue> = {};
+    for (const [name, attribute] of Object.entries(record.messageAttributes)) {
+      if (attribute.stringValue !== undefined) {
+        messageAttributes[name] = {
+          DataType: attribute.dataType,
+          StringValue: attribute.stringValue,
+        };
+      }
+    }
+    messageAttributes.FailureReason = {
+      DataType: "String",
+      StringValue: error.reason,
+    };
+    if (error.fieldErrors !== undefined) {
+      messageAttributes.ValidationErrors = {
+        DataType: "String",
+        StringValue: JSON.stringify(error.fieldErrors),
+      };
+    }
+
+    try {
+      await this.recordOutcome(record, {
+        request_status: ContractRequestStatusEnum.REJECTED,
+        failure_reason: error.reason,
+        message: error.message,
+        field_errors: error.fieldErrors,
+      });
+      await sqsClient.send(
+        new SendMessageCommand({
+          QueueUrl: DLQ_URL,
+          MessageBody: record.body,
+          MessageAttributes: messageAttributes,
+        })
+      );
+    } catch (sendError) {
+      logger.error(
+        `Failed to move message ${record.messageId} to the dead letter queue`,
+        sendError as Error
+      );
+      return false;
+    }
+
+    logger.warn(
+      `Moved invalid message ${record.messageId} to the dead letter queue`,
+      {
+        reason: error.reason,
+        message: error.message,
+        fieldErrors: error.fieldErrors,
+      }
+    );
+    metrics.addMetric("ContractRequestInvalid", MetricUnits.Count, 1);
+    return true;
   }
 
   /**
    * Parses an SQS record into ContractDBType
-   * 
+   *
    * @private
    * @method validateRecord
    * @param {SQSRecord} record - The SQS record containing the contract.
    * @returns {ContractDBType} - The contract from the SQS record
+   * @throws {InvalidContractRequestError} - If the record body is not valid JSON.
    */
   private parseRecord(record: SQSRecord): ContractDBType {
     let contract: ContractDBType;
@@ -210,7 +1279,10 @@ class ContractEventHandlerFunction implements LambdaInterface {
     } catch (error) {
       tracer.addErrorAsMetadata(error as Error);
       logger.error("Error parsing SQS Record", error as Error);
-      throw (new Error("Error parsing SQS Record"));
+      throw new InvalidContractRequestError(
+        "InvalidJson",
+        "Error parsing SQS Record"
+      );
     }
     logger.info("Returning contract", { contract });
     return contract;
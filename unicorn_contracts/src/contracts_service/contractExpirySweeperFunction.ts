@@ -0,0 +1,251 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { Context, ScheduledEvent } from "aws-lambda";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import {
+  ContractDBType,
+  ContractStatusEnum,
+  ContractError,
+  ContractEventEnum,
+  ContractRequestContext,
+  ContractTransitionError,
+  VersionedContractTransitionCondition,
+  buildContractTransition,
+  buildVersionedTransition,
+  contractVersionOf,
+} from "./Contract";
+import {
+  DynamoDBClient,
+  QueryCommand,
+  QueryCommandInput,
+  QueryCommandOutput,
+  TransactWriteItemsCommand,
+  TransactWriteItemsCommandOutput,
+} from "@aws-sdk/client-dynamodb";
+import type { LambdaInterface } from "@aws-lambda-powertools/commons";
+import { MetricUnits } from "@aws-lambda-powertools/metrics";
+import { logger, metrics, tracer } from "./powertools";
+import { contractHistoryPut, isTransitionRejected } from "./contractHistory";
+import { contractOutboxPut } from "./contractOutbox";
+
+// Empty configuration for DynamoDB
+const ddbClient = new DynamoDBClient({});
+const DDB_TABLE = process.env.DYNAMODB_TABLE;
+const DDB_STATUS_INDEX =
+  process.env.DYNAMODB_STATUS_INDEX ?? "ContractStatusIndex";
+
+/**
+ * Defines the outcome of a single sweep.
+ *
+ * @property expired - The number of contracts moved to EXPIRED.
+ * @property skipped - The number of contracts that changed before they could be expired.
+ */
+export type ContractExpirySweepResult = {
+  expired: number;
+  skipped: number;
+};
+
+class ContractExpirySweeperFunction implements LambdaInterface {
+  /**
+   * Handles the scheduled event and expires every DRAFT contract past its expiry date.
+   *
+   * @public
+   * @async
+   * @method handler
+   * @param {ScheduledEvent} event - The EventBridge scheduled event.
+   * @param {Context} context - The AWS Lambda context.
+   * @returns {Promise<ContractExpirySweepResult>} - The number of expired and skipped contracts.
+   */
+  @tracer.captureLambdaHandler()
+  @metrics.logMetrics({ captureColdStartMetric: true })
+  @logger.injectLambdaContext({ logEvent: true })
+  public async handler(
+    event: ScheduledEvent,
+    context: Context
+  ): Promise<ContractExpirySweepResult> {
+    const sweepDate = new Date(event.time ?? Date.now());
+    const result: ContractExpirySweepResult = { expired: 0, skipped: 0 };
+    const request: ContractRequestContext = {
+      requestId: event.id,
+      requestedBy: "ContractExpirySweeper",
+    };
+
+    logger.info("Sweeping expired contracts", {
+      expiresBefore: sweepDate.toISOString(),
+    });
+    let exclusiveStartKey: QueryCommandOutput["LastEvaluatedKey"];
+    do {
+      const page = await this.findExpiredContracts(
+        sweepDate,
+        exclusiveStartKey
+      );
+      for (const contract of page.contracts) {
+        if (await this.expireContract(contract, sweepDate, request)) {
+          result.expired++;
+        } else {
+          result.skipped++;
+        }
+      }
+      exclusiveStartKey = page.lastEvaluatedKey;
+    } while (exclusiveStartKey !== undefined);
+
+    logger.info("Finished sweeping expired contracts", { result });
+    metrics.addMetric("ContractExpired", MetricUnits.Count, result.expired);
+    return result;
+  }
+
+  /**
+   * Queries one page of DRAFT contracts whose expiry date has passed.
+   *
+   * @private
+   * @async
+   * @method findExpiredContracts
+   * @param {Date} sweepDate - Contracts expiring on or before this date are returned.
+   * @param exclusiveStartKey - The key to continue the query from, if any.
+   * @returns The contracts on this page and the key of the next page.
+   */
+  @tracer.captureMethod()
+  private async findExpiredContracts(
+    sweepDate: Date,
+    exclusiveStartKey?: QueryCommandOutput["LastEvaluatedKey"]
+  ): Promise<{
+    contracts: ContractDBType[];
+    lastEvaluatedKey: QueryCommandOutput["LastEvaluatedKey"];
+  }> {
+    const queryCommandInput: QueryCommandInput = {
+      TableName: DDB_TABLE,
+      IndexName: DDB_STATUS_INDEX,
+      KeyConditionExpression: "contract_status = :DRAFT",
+      // The status index is ordered by creation date; drafts without an expiry date never expire
+      FilterExpression: "expires_on <= :now",
+      ExpressionAttributeValues: {
+        ":DRAFT": { S: ContractStatusEnum.DRAFT },
+        ":now": { S: sweepDate.toISOString() },
+      },
+      ExclusiveStartKey: exclusiveStartKey,
+    };
+
+    const data = await ddbClient.send(new QueryCommand(queryCommandInput));
+    const contracts = (data.Items ?? []).map(
+      (item) => unmarshall(item) as ContractDBType
+    );
+    logger.info("Found expired contracts", { count: contracts.length });
+    return { contracts, lastEvaluatedKey: data.LastEvaluatedKey };
+  }
+
+  /**
+   * Moves a single contract to EXPIRED, provided it is still an expired DRAFT.
+   *
+   * @private
+   * @async
+   * @method expireContract
+   * @param {ContractDBType} contract - The contract to expire.
+   * @param {Date} sweepDate - The date the sweep started.
+   * @param {ContractRequestContext} request - The sweep, recorded in the contract history.
+   * @returns {Promise<boolean>} - False if the contract changed since it was queried.
+   * @throws {ContractError} - If there is an error during the update.
+   */
+  @tracer.captureMethod()
+  private async expireContract(
+    contract: ContractDBType,
+    sweepDate: Date,
+    request: ContractRequestContext
+  ): Promise<boolean> {
+    const modifiedDate = new Date();
+    let transition: VersionedContractTransitionCondition;
+    try {
+      transition = buildVersionedTransition(
+        buildContractTransition(contract, ContractEventEnum.EXPIRE, {
+          now: sweepDate,
+        }),
+        contractVersionOf(contract)
+      );
+    } catch (error) {
+      if (error instanceof ContractTransitionError) {
+        logger.info("Contract not eligible for expiry", {
+          propertyId: contract.property_id,
+        });
+        return false;
+      }
+      throw error;
+    }
+    const dbEntry: ContractDBType = {
+      contract_id: contract.contract_id,
+      property_id: contract.property_id,
+      contract_status: transition.to,
+      contract_last_modified_on: modifiedDate.toISOString(),
+      version: transition.version,
+    };
+
+    logger.info("Record to expire", { dbEntry });
+    const transactWriteItemsCommand = new TransactWriteItemsCommand({
+      TransactItems: [
+        {
+          Update: {
+            TableName: DDB_TABLE,
+            Key: { property_id: { S: dbEntry.property_id } },
+            UpdateExpression:
+              "set contract_status = :t, contract_last_modified_on = :m, version = :version",
+            ConditionExpression: transition.conditionExpression,
+            ExpressionAttributeValues: {
+              ":t": { S: dbEntry.contract_status as string },
+              ":m": { S: dbEntry.contract_last_modified_on as string },
+              ":version": { N: String(dbEntry.version) },
+              ...transition.expressionAttributeValues,
+            },
+          },
+        },
+        contractHistoryPut({
+          property_id: dbEntry.property_id,
+          agency_id: contract.agency_id,
+          contract_id: dbEntry.contract_id,
+          event: ContractEventEnum.EXPIRE,
+          from_status: contract.contract_status,
+          to_status: transition.to,
+          changed_on: modifiedDate.toISOString(),
+          requested_by: request.requestedBy,
+          request_id: request.requestId,
+        }),
+        contractOutboxPut(
+          { ...contract, ...dbEntry },
+          request,
+          modifiedDate.toISOString()
+        ),
+      ],
+    });
+
+    let ddbUpdateCommandOutput: TransactWriteItemsCommandOutput;
+    try {
+      ddbUpdateCommandOutput = await ddbClient.send(transactWriteItemsCommand);
+    } catch (error) {
+      if (isTransitionRejected(error)) {
+        // The contract was changed, cancelled or re-created since it was queried.
+        logger.info("Contract no longer eligible for expiry", {
+          propertyId: dbEntry.property_id,
+        });
+        return false;
+      }
+      throw error;
+    }
+    if (ddbUpdateCommandOutput.$metadata.httpStatusCode != 200) {
+      const error: ContractError = {
+        propertyId: dbEntry.property_id,
+        name: "ContractDBExpireError",
+        message:
+          "Response error code: " +
+          ddbUpdateCommandOutput.$metadata.httpStatusCode,
+        object: ddbUpdateCommandOutput.$metadata,
+      };
+      throw error;
+    }
+
+    logger.info("Expired record for contract", {
+      contractId: dbEntry.contract_id,
+      metadata: ddbUpdateCommandOutput.$metadata,
+    });
+    return true;
+  }
+}
+
+export const myFunction = new ContractExpirySweeperFunction();
+export const lambdaHandler = myFunction.handler.bind(myFunction);
@@ -0,0 +1,64 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { marshall, unmarshall } from "@aws-sdk/util-dynamodb";
+import {
+  TransactionCanceledException,
+  TransactWriteItem,
+} from "@aws-sdk/client-dynamodb";
+import { randomUUID } from "crypto";
+import { ContractDBType, ContractHistoryDBType } from "./Contract";
+
+const DDB_HISTORY_TABLE = process.env.DYNAMODB_HISTORY_TABLE;
+
+/**
+ * Builds the transaction item that records a contract transition in the history table.
+ * The item is written once and never updated.
+ *
+ * @param entry - The transition to record.
+ * @returns {TransactWriteItem} - The Put to add to the transaction of the contract write.
+ */
+export function contractHistoryPut(
+  entry: Omit<ContractHistoryDBType, "history_id">
+): TransactWriteItem {
+  const historyEntry: ContractHistoryDBType = {
+    ...entry,
+    history_id: `${entry.changed_on}#${randomUUID()}`,
+  };
+  return {
+    Put: {
+      TableName: DDB_HISTORY_TABLE,
+      Item: marshall(historyEntry, { removeUndefinedValues: true }),
+      ConditionExpression: "attribute_not_exists(history_id)",
+    },
+  };
+}
+
+/**
+ * Tells whether a transaction was cancelled because the contract write, always the first
+ * item of the transaction, failed its transition condition.
+ *
+ * @param error - The error raised by TransactWriteItems.
+ * @returns {boolean} - True if the stored contract did not allow the transition.
+ */
+export function isTransitionRejected(error: unknown): boolean {
+  return (
+    error instanceof TransactionCanceledException &&
+    error.CancellationReasons?.[0]?.Code === "ConditionalCheckFailed"
+  );
+}
+
+/**
+ * Returns the stored contract that made the contract write fail its condition. Only available
+ * when the write asked for ReturnValuesOnConditionCheckFailure.
+ *
+ * @param error - The error raised by TransactWriteItems.
+ * @returns {ContractDBType | undefined} - The stored contract, or undefined if it was not returned.
+ */
+export function rejectedContractOf(error: unknown): ContractDBType | undefined {
+  if (!isTransitionRejected(error)) {
+    return undefined;
+  }
+  const item = (error as TransactionCanceledException).CancellationReasons?.[0]
+    ?.Item;
+  return item === undefined ? undefined : (unmarshall(item) as ContractDBType);
+}
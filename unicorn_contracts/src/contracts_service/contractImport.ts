@@ -0,0 +1,280 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { ContractFieldError } from "./Contract";
+import { CreateContractModel } from "./contractSchemas";
+
+/**
+ * Files are uploaded under this prefix, in a folder per agency, e.g. imports/<agency_id>/listings.csv;
+ * their reports are written under REPORTS_PREFIX.
+ */
+export const IMPORTS_PREFIX = "imports/";
+export const REPORTS_PREFIX = "reports/";
+
+// CSV columns holding integers; every other cell is read as a string
+const INTEGER_COLUMNS = ["address.number"];
+
+/**
+ * Enumerates the outcomes of an imported row.
+ */
+export enum ContractImportResultEnum {
+  CREATED = "CREATED",
+  SKIPPED = "SKIPPED",
+  INVALID = "INVALID",
+  FAILED = "FAILED",
+}
+
+/**
+ * Defines a row read from an import file.
+ *
+ * @property row - The position of the row in the file, starting at 1. The header of a CSV file is row 1.
+ * @property body - The create contract request of the row, if it could be read.
+ * @property error - Why the row could not be read (optional).
+ */
+export type ContractImportRow = {
+  row: number;
+  body?: Record<string, unknown>;
+  error?: string;
+};
+
+/**
+ * Defines the outcome of an imported row.
+ *
+ * @property row - The position of the row in the file.
+ * @property property_id - The property of the row, if known.
+ * @property result - What happened to the row.
+ * @property contract_id - The ID of the created contract (optional).
+ * @property reason - Why the row was skipped, invalid or failed (optional).
+ * @property errors - The fields that failed validation (optional).
+ */
+export type ContractImportRowResult = {
+  row: number;
+  property_id?: string;
+  result: ContractImportResultEnum;
+  contract_id?: string;
+  reason?: string;
+  errors?: ContractFieldError[];
+};
+
+/**
+ * Defines the report written after an import file is processed.
+ *
+ * @property import_key - The object key of the imported file.
+ * @property started_on - When processing started.
+ * @property finished_on - When processing finished.
+ * @property totals - The number of rows with each result.
+ * @property rows - The outcome of every row, in file order.
+ */
+export type ContractImportReport = {
+  import_key: string;
+  started_on: string;
+  finished_on: string;
+  totals: Record<ContractImportResultEnum, number>;
+  rows: ContractImportRowResult[];
+};
+
+/**
+ * Reads the rows of an import file. CSV files have a header row naming the fields of
+ * CreateContractModel, with nested fields separated by dots, e.g. address.city. JSONL files
+ * have one request body per line.
+ *
+ * @param {string} key - The object key of the file; its extension gives the format.
+ * @param {string} content - The content of the file.
+ * @returns {ContractImportRow[]} - The rows of the file, in file order.
+ * @throws {Error} - If the file is neither CSV nor JSONL.
+ */
+export function parseContractImport(
+  key: string,
+  content: string
+): ContractImportRow[] {
+  const extension = key.toLowerCase().split(".").pop();
+  switch (extension) {
+    case "csv":
+      return parseCsvImport(content);
+    case "jsonl":
+      return parseJsonLinesImport(content);
+    default:
+      throw new Error(
+        `Unsupported import file ${key}, expected .csv or .jsonl`
+      );
+  }
+}
+
+/**
+ * Reads the agency an import file was uploaded for from the first folder of its key, e.g.
+ * imports/agency-1/listings.csv is imported for agency-1.
+ *
+ * @param {string} importKey - The object key of the imported file.
+ * @returns {string | undefined} - The agency ID, or undefined if the file is not in an agency folder.
+ */
+export function contractImportAgencyOf(importKey: string): string | undefined {
+  if (!importKey.startsWith(IMPORTS_PREFIX)) {
+    return undefined;
+  }
+  const folders = importKey.slice(IMPORTS_PREFIX.length).split("/");
+  return folders.length > 1 && folders[0] !== "" ? folders[0] : undefined;
+}
+
+/**
+ * Builds the object key of the report of an import file, e.g. imports/agency.csv is reported
+ * in reports/agency.csv.report.json.
+ *
+ * @param {string} importKey - The object key of the imported file.
+ * @returns {string} - The object key of the report.
+ */
+export function contractImportReportKey(importKey: string): string {
+  const name = importKey.startsWith(IMPORTS_PREFIX)
+    ? importKey.slice(IMPORTS_PREFIX.length)
+    : importKey;
+  return `${REPORTS_PREFIX}${name}.report.json`;
+}
+
+/**
+ * Reads a JSONL file, skipping blank lines.
+ */
+function parseJsonLinesImport(content: string): ContractImportRow[] {
+  const rows: ContractImportRow[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === "") {
+      return;
+    }
+    try {
+      const body = JSON.parse(line);
+      if (body === null || typeof body !== "object" || Array.isArray(body)) {
+        rows.push({ row: index + 1, error: "Row is not a JSON object" });
+      } else {
+        rows.push({ row: index + 1, body });
+      }
+    } catch {
+      rows.push({ row: index + 1, error: "Row is not valid JSON" });
+    }
+  });
+  return rows;
+}
+
+/**
+ * Reads a CSV file into request bodies. Empty cells are left out, so optional fields can be
+ * left blank.
+ */
+function parseCsvImport(content: string): ContractImportRow[] {
+  const [header, ...records] = parseCsvRecords(content);
+  if (header === undefined) {
+    return [];
+  }
+  const columns = header.map((column) => column.trim());
+  const unknownColumns = columns.filter((column) => !isContractField(column));
+  return records.map((cells, index) => {
+    const row = index + 2;
+    if (unknownColumns.length > 0) {
+      return {
+        row,
+        error: `Unknown columns ${unknownColumns.join(", ")}`,
+      };
+    }
+    if (cells.length !== columns.length) {
+      return {
+        row,
+        error: `Row has ${cells.length} columns, expected ${columns.length}`,
+      };
+    }
+    const body: Record<string, unknown> = Object.create(null);
+    columns.forEach((column, i) => {
+      const cell = cells[i].trim();
+      if (cell === "") {
+        return;
+      }
+      setField(
+        body,
+        column.split("."),
+        INTEGER_COLUMNS.includes(column) && /^-?\d+$/.test(cell)
+          ? Number(cell)
+          : cell
+      );
+    });
+    return { row, body };
+  });
+}
+
+/**
+ * Splits CSV content into records of cells, following RFC 4180: cells may be quoted, quoted cells
+ * may hold commas, line breaks and doubled quotes. Blank lines are skipped.
+ */
+function parseCsvRecords(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") {
+        i++;
+      }
+      record.push(cell);
+      if (record.length > 1 || record[0] !== "") {
+        records.push(record);
+      }
+      record = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  record.push(cell);
+  if (record.length > 1 || record[0] !== "") {
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Checks that a CSV column names a field of CreateContractModel, e.g. address.city. Only the
+ * schema's own properties are looked up, so a column cannot reach the prototype of an object.
+ */
+function isContractField(column: string): boolean {
+  let schema: { properties?: Record<string, unknown> } = CreateContractModel;
+  for (const field of column.split(".")) {
+    if (
+      schema.properties === undefined ||
+      !Object.prototype.hasOwnProperty.call(schema.properties, field)
+    ) {
+      return false;
+    }
+    schema = schema.properties[field] as typeof schema;
+  }
+  return true;
+}
+
+/**
+ * Sets a nested field, creating the objects on its path without a prototype.
+ */
+function setField(
+  target: Record<string, unknown>,
+  path: string[],
+  value: unknown
+): void {
+  const [field, ...rest] = path;
+  if (rest.length === 0) {
+    target[field] = value;
+    return;
+  }
+  const child = (target[field] ?? Object.create(null)) as Record<
+    string,
+    unknown
+  >;
+  target[field] = child;
+  setField(child, rest, value);
+}
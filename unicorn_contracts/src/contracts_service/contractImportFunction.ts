@@ -0,0 +1,238 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { Context, S3Event, S3EventRecord } from "aws-lambda";
+import {
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import type { LambdaInterface } from "@aws-lambda-powertools/commons";
+import { MetricUnits } from "@aws-lambda-powertools/metrics";
+import {
+  ContractAgencyMismatchError,
+  ContractDBType,
+  ContractRequestContext,
+  ContractTransitionError,
+} from "./Contract";
+import {
+  ContractImportReport,
+  ContractImportResultEnum,
+  ContractImportRow,
+  ContractImportRowResult,
+  IMPORTS_PREFIX,
+  contractImportAgencyOf,
+  contractImportReportKey,
+  parseContractImport,
+} from "./contractImport";
+import { validateContractRequest } from "./contractSchemas";
+import { myFunction as contractEventHandler } from "./contractEventHandler";
+import { logger, metrics, tracer } from "./powertools";
+
+// Empty configuration for S3
+const s3Client = new S3Client({});
+
+class ContractImportFunction implements LambdaInterface {
+  /**
+   * Imports the contracts of each uploaded file, one row at a time in file order, and writes a
+   * report with the outcome of every row next to it.
+   *
+   * @public
+   * @async
+   * @method handler
+   * @param {S3Event} event - The S3 notification of the uploaded files.
+   * @param {Context} context - The AWS Lambda context.
+   * @returns {Promise<ContractImportReport[]>} - The report of each file.
+   */
+  @tracer.captureLambdaHandler()
+  @metrics.logMetrics({ captureColdStartMetric: true })
+  @logger.injectLambdaContext({ logEvent: true })
+  public async handler(
+    event: S3Event,
+    context: Context
+  ): Promise<ContractImportReport[]> {
+    const reports: ContractImportReport[] = [];
+    for (const record of event.Records) {
+      reports.push(await this.importFile(record));
+    }
+    return reports;
+  }
+
+  /**
+   * Imports the rows of a single file and writes its report.
+   *
+   * @private
+   * @async
+   * @method importFile
+   * @param {S3EventRecord} record - The notification of the uploaded file.
+   * @returns {Promise<ContractImportReport>} - The report of the file.
+   * @throws {Error} - If the file cannot be read, is not in an agency folder or is neither CSV nor JSONL.
+   */
+  @tracer.captureMethod()
+  private async importFile(
+    record: S3EventRecord
+  ): Promise<ContractImportReport> {
+    const bucket = record.s3.bucket.name;
+    // Object keys in S3 notifications are URL-encoded, with spaces as +
+    const key = decodeURIComponent(record.s3.object.key.replace(/\+/g, " "));
+    const startedOn = new Date().toISOString();
+    const agencyId = contractImportAgencyOf(key);
+    if (agencyId === undefined) {
+      metrics.addMetric("ContractImportRejected", MetricUnits.Count, 1);
+      throw new Error(
+        `Import file ${key} must be uploaded to ${IMPORTS_PREFIX}<agency_id>/`
+      );
+    }
+    logger.info("Importing contracts", { bucket, key, agencyId });
+
+    const object = await s3Client.send(
+      new GetObjectCommand({ Bucket: bucket, Key: key })
+    );
+    const rows = parseContractImport(
+      key,
+      (await object.Body?.transformToString("utf-8")) ?? ""
+    );
+
+    const results: ContractImportRowResult[] = [];
+    for (const row of rows) {
+      results.push(
+        await this.importRow(row, {
+          // Links the history of each contract back to its row
+          requestId: `${key}#${row.row}`,
+          requestedBy: record.userIdentity?.principalId ?? "unknown",
+          agencyId,
+        })
+      );
+    }
+
+    const report: ContractImportReport = {
+      import_key: key,
+      started_on: startedOn,
+      finished_on: new Date().toISOString(),
+      totals: {
+        [ContractImportResultEnum.CREATED]: 0,
+        [ContractImportResultEnum.SKIPPED]: 0,
+        [ContractImportResultEnum.INVALID]: 0,
+        [ContractImportResultEnum.FAILED]: 0,
+      },
+      rows: results,
+    };
+    for (const result of results) {
+      report.totals[result.result]++;
+    }
+
+    const reportKey = contractImportReportKey(key);
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: bucket,
+        Key: reportKey,
+        Body: JSON.stringify(report, null, 2),
+        ContentType: "application/json",
+      })
+    );
+    logger.info("Imported contracts", {
+      key,
+      reportKey,
+      totals: report.totals,
+    });
+    metrics.addMetric(
+      "ContractImportCreated",
+      MetricUnits.Count,
+      report.totals.CREATED
+    );
+    metrics.addMetric(
+      "ContractImportSkipped",
+      MetricUnits.Count,
+      report.totals.SKIPPED
+    );
+    metrics.addMetric(
+      "ContractImportInvalid",
+      MetricUnits.Count,
+      report.totals.INVALID
+    );
+    metrics.addMetric(
+      "ContractImportFailed",
+      MetricUnits.Count,
+      report.totals.FAILED
+    );
+    return report;
+  }
+
+  /**
+   * Validates a row against CreateContractModel and creates its contract, unless the property
+   * already has an active contract or is managed by another agency.
+   *
+   * @private
+   * @async
+   * @method importRow
+   * @param {ContractImportRow} row - The row to import.
+   * @param {ContractRequestContext} request - The import, recorded in the contract history.
+   * @returns {Promise<ContractImportRowResult>} - The outcome of the row.
+   */
+  private async importRow(
+    row: ContractImportRow,
+    request: ContractRequestContext
+  ): Promise<ContractImportRowResult> {
+    const propertyId =
+      typeof row.body?.property_id === "string"
+        ? row.body.property_id
+        : undefined;
+    if (row.body === undefined) {
+      return {
+        row: row.row,
+        result: ContractImportResultEnum.INVALID,
+        reason: row.error,
+      };
+    }
+    const fieldErrors = validateContractRequest("POST /contracts", row.body);
+    if (fieldErrors !== undefined && fieldErrors.length > 0) {
+      return {
+        row: row.row,
+        property_id: propertyId,
+        result: ContractImportResultEnum.INVALID,
+        reason: "Row failed validation",
+        errors: fieldErrors,
+      };
+    }
+
+    try {
+      const contract = await contractEventHandler.createContract(
+        row.body as ContractDBType,
+        request
+      );
+      return {
+        row: row.row,
+        property_id: propertyId,
+        result: ContractImportResultEnum.CREATED,
+        contract_id: contract.contract_id,
+      };
+    } catch (error) {
+      if (error instanceof ContractTransitionError) {
+        return {
+          row: row.row,
+          property_id: propertyId,
+          result: ContractImportResultEnum.SKIPPED,
+          reason: "Property already has an active contract",
+        };
+      }
+      if (error instanceof ContractAgencyMismatchError) {
+        return {
+          row: row.row,
+          property_id: propertyId,
+          result: ContractImportResultEnum.SKIPPED,
+          reason: "Property is managed by another agency",
+        };
+      }
+      // Reported rather than thrown, so one failed row does not fail the rest of the file
+      logger.error(`Failed to import row ${row.row}`, error as Error);
+      return {
+        row: row.row,
+        property_id: propertyId,
+        result: ContractImportResultEnum.FAILED,
+        reason: (error as Error).message,
+      };
+    }
+  }
+}
+
+export const myFunction = new ContractImportFunction();
+export const lambdaHandler = myFunction.handler.bind(myFunction);
@@ -0,0 +1,211 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { marshall } from "@aws-sdk/util-dynamodb";
+import { TransactWriteItem } from "@aws-sdk/client-dynamodb";
+import { randomUUID } from "crypto";
+import {
+  ContractBuyer,
+  ContractDBType,
+  ContractFieldChange,
+  ContractRequestContext,
+  ContractStatusEnum,
+} from "./Contract";
+
+const DDB_OUTBOX_TABLE = process.env.DYNAMODB_OUTBOX_TABLE;
+// Published entries are kept for a week, so they can be inspected, then removed by the table TTL
+const OUTBOX_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+// Versions are padded so that sequences sort as numbers
+const SEQUENCE_VERSION_DIGITS = 10;
+
+/**
+ * The version of the ContractStatusChanged detail. Bump it when a change to the detail would
+ * break existing subscribers.
+ */
+export const CONTRACT_STATUS_CHANGED_VERSION = 1;
+
+/**
+ * Defines the detail of a ContractStatusChanged event: the contract as it was after the change.
+ */
+export type ContractStatusChangedDetail = {
+  property_id: string;
+  agency_id?: string;
+  contract_id?: string;
+  contract_status: ContractStatusEnum;
+  contract_last_modified_on?: string;
+  buyer?: ContractBuyer;
+  price?: string;
+  currency?: string;
+  deposit?: string;
+  closing_date?: string;
+  version?: number;
+};
+
+/**
+ * The version of the ContractAmended detail. Bump it when a change to the detail would break
+ * existing subscribers.
+ */
+export const CONTRACT_AMENDED_VERSION = 1;
+
+/**
+ * Defines the detail of a ContractAmended event: the fields an amendment changed.
+ */
+export type ContractAmendedDetail = {
+  property_id: string;
+  agency_id?: string;
+  contract_id?: string;
+  contract_last_modified_on?: string;
+  version?: number;
+  changes: ContractFieldChange[];
+};
+
+/**
+ * Defines an event waiting in the outbox to be published.
+ *
+ * @property event_id - Unique ID of the event; subscribers use it to discard duplicate deliveries.
+ * @property event_type - The detail type the event is published with.
+ * @property event_version - The version of the detail.
+ * @property occurred_on - When the contract changed.
+ * @property request_id - The request that changed the contract.
+ * @property detail - The payload of the event.
+ */
+export type ContractEventEnvelope = {
+  event_id: string;
+  event_type: "ContractStatusChanged" | "ContractAmended";
+  event_version: number;
+  occurred_on: string;
+  request_id: string;
+  detail: ContractStatusChangedDetail | ContractAmendedDetail;
+};
+
+/**
+ * Defines an item of the outbox table. Items are keyed by property, so the stream delivers the
+ * events of a property in the order they were written.
+ *
+ * @property property_id - The property the event is about; the partition key.
+ * @property sequence - Orders the events of a property: the contract version after the change,
+ * zero-padded, then the event type; the sort key.
+ * @property expiration - When the table TTL removes the item, in epoch seconds.
+ */
+export type ContractOutboxDBType = ContractEventEnvelope & {
+  property_id: string;
+  sequence: string;
+  expiration: number;
+};
+
+/**
+ * Builds the detail of a ContractStatusChanged event from a contract.
+ *
+ * @param {ContractDBType} contract - The contract as it is after the change.
+ * @returns {ContractStatusChangedDetail} - The detail of the event.
+ */
+export function contractStatusChangedDetail(
+  contract: ContractDBType
+): ContractStatusChangedDetail {
+  return {
+    property_id: contract.property_id,
+    agency_id: contract.agency_id,
+    contract_id: contract.contract_id,
+    contract_status: contract.contract_status,
+    contract_last_modified_on: contract.contract_last_modified_on,
+    buyer: contract.buyer,
+    price: contract.price,
+    currency: contract.currency,
+    deposit: contract.deposit,
+    closing_date: contract.closing_date,
+    version: contract.version,
+  };
+}
+
+/**
+ * Builds the transaction item that queues a ContractStatusChanged event in the outbox. Written in
+ * the transaction of the contract write, the event is queued if and only if the change is stored.
+ *
+ * @param {ContractDBType} contract - The contract as it is after the change.
+ * @param {ContractRequestContext} request - The request that changed the contract.
+ * @param {string} occurredOn - When the contract changed.
+ * @returns {TransactWriteItem} - The Put to add to the transaction of the contract write.
+ */
+export function contractOutboxPut(
+  contract: ContractDBType,
+  request: ContractRequestContext,
+  occurredOn: string
+): TransactWriteItem {
+  return outboxPut(
+    contract,
+    "ContractStatusChanged",
+    CONTRACT_STATUS_CHANGED_VERSION,
+    contractStatusChangedDetail(contract),
+    request,
+    occurredOn
+  );
+}
+
+/**
+ * Builds the transaction item that queues a ContractAmended event in the outbox, in the
+ * transaction of the amendment.
+ *
+ * @param {ContractDBType} contract - The contract as it is after the amendment.
+ * @param {ContractFieldChange[]} changes - The fields the amendment changed.
+ * @param {ContractRequestContext} request - The request that amended the contract.
+ * @param {string} occurredOn - When the contract was amended.
+ * @returns {TransactWriteItem} - The Put to add to the transaction of the contract write.
+ */
+export function contractAmendedOutboxPut(
+  contract: ContractDBType,
+  changes: ContractFieldChange[],
+  request: ContractRequestContext,
+  occurredOn: string
+): TransactWriteItem {
+  return outboxPut(
+    contract,
+    "ContractAmended",
+    CONTRACT_AMENDED_VERSION,
+    {
+      property_id: contract.property_id,
+      agency_id: contract.agency_id,
+      contract_id: contract.contract_id,
+      contract_last_modified_on: contract.contract_last_modified_on,
+      version: contract.version,
+      changes,
+    },
+    request,
+    occurredOn
+  );
+}
+
+/**
+ * Builds the transaction item that queues an event about a contract in the outbox.
+ */
+function outboxPut(
+  contract: ContractDBType,
+  eventType: ContractEventEnvelope["event_type"],
+  eventVersion: number,
+  detail: ContractEventEnvelope["detail"],
+  request: ContractRequestContext,
+  occurredOn: string
+): TransactWriteItem {
+  const outboxEntry: ContractOutboxDBType = {
+    event_id: randomUUID(),
+    event_type: eventType,
+    event_version: eventVersion,
+    occurred_on: occurredOn,
+    request_id: request.requestId,
+    property_id: contract.property_id,
+    // Every change bumps the version, which never goes back for a property, even for a new contract
+    sequence: `${String(contract.version ?? 0).padStart(
+      SEQUENCE_VERSION_DIGITS,
+      "0"
+    )}#${eventType}`,
+    detail,
+    expiration:
+      Math.floor(new Date(occurredOn).getTime() / 1000) +
+      OUTBOX_RETENTION_SECONDS,
+  };
+  return {
+    Put: {
+      TableName: DDB_OUTBOX_TABLE,
+      Item: marshall(outboxEntry, { removeUndefinedValues: true }),
+      ConditionExpression: "attribute_not_exists(sequence)",
+    },
+  };
+}
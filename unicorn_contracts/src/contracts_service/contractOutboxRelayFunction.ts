@@ -0,0 +1,149 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import {
+  Context,
+  DynamoDBBatchResponse,
+  DynamoDBRecord,
+  DynamoDBStreamEvent,
+} from "aws-lambda";
+import { AttributeValue } from "@aws-sdk/client-dynamodb";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import type { LambdaInterface } from "@aws-lambda-powertools/commons";
+import { MetricUnits } from "@aws-lambda-powertools/metrics";
+import { logger, metrics, tracer } from "./powertools";
+import { ContractEventEnvelope, ContractOutboxDBType } from "./contractOutbox";
+
+// Empty configuration for EventBridge
+const eventsClient = new EventBridgeClient({});
+const EVENT_BUS = process.env.EVENT_BUS;
+const SERVICE_NAMESPACE = process.env.SERVICE_NAMESPACE;
+
+/**
+ * Defines the detail published on the bus: the flat detail subscribers already read, and the
+ * envelope fields under metadata.
+ */
+export type PublishedContractEventDetail<
+  D extends ContractEventEnvelope["detail"] = ContractEventEnvelope["detail"]
+> = D & {
+  metadata: Omit<ContractEventEnvelope, "detail">;
+};
+
+class ContractOutboxRelayFunction implements LambdaInterface {
+  /**
+   * Publishes the events written to the outbox table. The stream delivers the events of a property
+   * in the order they were written, as they share a partition. Publishing stops at the first
+   * failure and the failed record is reported, so it and every later record are retried in order.
+   *
+   * @public
+   * @async
+   * @method handler
+   * @param {DynamoDBStreamEvent} event - The stream records of new outbox items.
+   * @param {Context} context - The AWS Lambda context.
+   * @returns {Promise<DynamoDBBatchResponse>} - The record to retry from, if any.
+   */
+  @tracer.captureLambdaHandler()
+  @metrics.logMetrics({ captureColdStartMetric: true })
+  @logger.injectLambdaContext({ logEvent: true })
+  public async handler(
+    event: DynamoDBStreamEvent,
+    context: Context
+  ): Promise<DynamoDBBatchResponse> {
+    for (const record of event.Records) {
+      if (record.eventName !== "INSERT") {
+        continue;
+      }
+      try {
+        await this.publish(this.outboxEntryOf(record));
+      } catch (error) {
+        logger.error(
+          `Failed to publish outbox record ${record.dynamodb?.SequenceNumber}`,
+          error as Error
+        );
+        metrics.addMetric("ContractEventPublishFailed", MetricUnits.Count, 1);
+        return {
+          batchItemFailures: [
+            { itemIdentifier: record.dynamodb?.SequenceNumber ?? "" },
+          ],
+        };
+      }
+    }
+    return { batchItemFailures: [] };
+  }
+
+  /**
+   * Reads the outbox item from a stream record.
+   *
+   * @private
+   * @method outboxEntryOf
+   * @param {DynamoDBRecord} record - The stream record of a new outbox item.
+   * @returns {ContractOutboxDBType} - The outbox item.
+   * @throws {Error} - If the record carries no item.
+   */
+  private outboxEntryOf(record: DynamoDBRecord): ContractOutboxDBType {
+    const image = record.dynamodb?.NewImage;
+    if (image === undefined) {
+      throw new Error("Outbox record has no new image");
+    }
+    return unmarshall(
+      image as Record<string, AttributeValue>
+    ) as ContractOutboxDBType;
+  }
+
+  /**
+   * Publishes a single outbox entry to the event bus.
+   *
+   * @private
+   * @async
+   * @method publish
+   * @param {ContractOutboxDBType} entry - The outbox entry to publish.
+   * @returns {Promise<void>}
+   * @throws {Error} - If EventBridge does not accept the event.
+   */
+  @tracer.captureMethod()
+  private async publish(entry: ContractOutboxDBType): Promise<void> {
+    const { detail, event_id, event_type, event_version, occurred_on } = entry;
+    const publishedDetail: PublishedContractEventDetail = {
+      ...detail,
+      metadata: {
+        event_id,
+        event_type,
+        event_version,
+        occurred_on,
+        request_id: entry.request_id,
+      },
+    };
+    const eventsPutEventsCommandOutput = await eventsClient.send(
+      new PutEventsCommand({
+        Entries: [
+          {
+            EventBusName: EVENT_BUS,
+            Time: new Date(occurred_on),
+            Source: SERVICE_NAMESPACE,
+            DetailType: event_type,
+            Detail: JSON.stringify(publishedDetail),
+          },
+        ],
+      })
+    );
+    if (eventsPutEventsCommandOutput.FailedEntryCount) {
+      throw new Error(
+        `EventBridge rejected the event: ${JSON.stringify(
+          eventsPutEventsCommandOutput.Entries
+        )}`
+      );
+    }
+
+    logger.info(`Published ${event_type} for ${detail.property_id}`, {
+      eventId: event_id,
+      version: detail.version,
+    });
+    metrics.addMetric("ContractEventPublished", MetricUnits.Count, 1);
+  }
+}
+
+export const myFunction = new ContractOutboxRelayFunction();
+export const lambdaHandler = myFunction.handler.bind(myFunction);
@@ -0,0 +1,563 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import {
+  APIGatewayProxyEvent,
+  APIGatewayProxyResult,
+  Context,
+} from "aws-lambda";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import {
+  AttributeValue,
+  DynamoDBClient,
+  GetItemCommand,
+  GetItemCommandInput,
+  QueryCommand,
+  QueryCommandInput,
+} from "@aws-sdk/client-dynamodb";
+import type { LambdaInterface } from "@aws-lambda-powertools/commons";
+import { MetricUnits } from "@aws-lambda-powertools/metrics";
+import {
+  AGENCY_CLAIM,
+  ContractDBType,
+  ContractHistoryDBType,
+  ContractRequestDBType,
+  ContractStatusEnum,
+  contractVersionOf,
+  normaliseSellerName,
+} from "./Contract";
+import { logger, metrics, tracer } from "./powertools";
+
+// Empty configuration for DynamoDB
+const ddbClient = new DynamoDBClient({});
+const DDB_TABLE = process.env.DYNAMODB_TABLE;
+const DDB_STATUS_INDEX =
+  process.env.DYNAMODB_STATUS_INDEX ?? "ContractStatusIndex";
+const DDB_SELLER_INDEX =
+  process.env.DYNAMODB_SELLER_INDEX ?? "ContractSellerIndex";
+const DDB_HISTORY_TABLE = process.env.DYNAMODB_HISTORY_TABLE;
+const DDB_REQUESTS_TABLE = process.env.DYNAMODB_REQUESTS_TABLE;
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+// Attributes of the key each query pages by, which a next_token has to carry
+const STATUS_PAGE_KEY = ["property_id", "contract_status", "contract_created"];
+const SELLER_PAGE_KEY = ["property_id", "seller_initial", "seller_search_name"];
+const HISTORY_PAGE_KEY = ["property_id", "history_id"];
+
+/**
+ * Defines a page of contracts returned by the list routes.
+ *
+ * @property contracts - The contracts on this page.
+ * @property next_token - Pass as `next_token` to fetch the next page; absent on the last page.
+ */
+export type ContractPage = {
+  contracts: ContractDBType[];
+  next_token?: string;
+};
+
+/**
+ * Defines a page of the contracts of the sellers whose name starts with the searched prefix,
+ * ordered by seller name.
+ *
+ * @property totals - The number of matching contracts in each status, across every page. Only
+ * counted for the first page, as counting reads every matching contract.
+ */
+export type ContractSellerPage = ContractPage & {
+  totals?: Partial<Record<ContractStatusEnum, number>>;
+};
+
+/**
+ * Defines a page of the history of a property's contracts, oldest change first.
+ *
+ * @property history - The history records on this page.
+ * @property next_token - Pass as `next_token` to fetch the next page; absent on the last page.
+ */
+export type ContractHistoryPage = {
+  history: ContractHistoryDBType[];
+  next_token?: string;
+};
+
+/**
+ * Error raised when the request cannot be served as sent.
+ */
+export class ContractQueryError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = "ContractQueryError";
+    this.statusCode = statusCode;
+  }
+}
+
+class ContractQueryFunction implements LambdaInterface {
+  /**
+   * Handles read requests for contracts.
+   * Event doc: https://docs.aws.amazon.com/apigateway/latest/developerguide/set-up-lambda-proxy-integrations.html#api-gateway-simple-proxy-for-lambda-input-format
+   *
+   * @public
+   * @async
+   * @method handler
+   * @param {APIGatewayProxyEvent} event - API Gateway Lambda Proxy Input Format
+   * @param {Context} context - The AWS Lambda context.
+   * @returns {Promise<APIGatewayProxyResult>} - API Gateway Lambda Proxy Output Format
+   */
+  @tracer.captureLambdaHandler()
+  @metrics.logMetrics({ captureColdStartMetric: true })
+  @logger.injectLambdaContext({ logEvent: true })
+  public async handler(
+    event: APIGatewayProxyEvent,
+    context: Context
+  ): Promise<APIGatewayProxyResult> {
+    logger.info(`Handling request for ${event.resource}`);
+    try {
+      switch (event.resource) {
+        case "/contracts/{property_id}": {
+          const contract = await this.getContract(event);
+          // Send the version back as If-Match to update the contract
+          return this.respond(200, contract, {
+            ETag: `"${contractVersionOf(contract)}"`,
+          });
+        }
+        case "/contracts/{property_id}/history":
+          return this.respond(200, await this.listContractHistory(event));
+        case "/contracts/requests/{request_id}":
+          return this.respond(200, await this.getRequestOutcome(event));
+        case "/contracts":
+          if (event.queryStringParameters?.seller_name !== undefined) {
+            return this.respond(200, await this.listContractsBySeller(event));
+          }
+          return this.respond(200, await this.listContractsByStatus(event));
+        default:
+          throw new ContractQueryError(
+            `Unable to handle resource ${event.resource}`
+          );
+      }
+    } catch (error) {
+      if (error instanceof ContractQueryError) {
+        logger.info("Rejected contract query", { message: error.message });
+        return this.respond(error.statusCode, { message: error.message });
+      }
+      tracer.addErrorAsMetadata(error as Error);
+      logger.error("Error during contract query", error as Error);
+      return this.respond(500, { message: "Internal server error" });
+    }
+  }
+
+  /**
+   * Returns the contract for a property.
+   * Resource: /contracts/{property_id}
+   *
+   * @private
+   * @async
+   * @method getContract
+   * @param {APIGatewayProxyEvent} event - The API Gateway request.
+   * @returns {Promise<ContractDBType>} - The contract.
+   * @throws {ContractQueryError} - If the property has no contract managed by the caller's agency.
+   */
+  @tracer.captureMethod()
+  private async getContract(
+    event: APIGatewayProxyEvent
+  ): Promise<ContractDBType> {
+    const propertyId = this.propertyIdFrom(event);
+    const agencyId = this.agencyIdFrom(event);
+    tracer.putAnnotation("property_id", propertyId);
+
+    const getItemCommandInput: GetItemCommandInput = {
+      TableName: DDB_TABLE,
+      Key: { property_id: { S: propertyId } },
+    };
+    const data = await ddbClient.send(new GetItemCommand(getItemCommandInput));
+    // Contracts of other agencies are reported as missing, so their properties are not disclosed
+    if (data.Item === undefined || data.Item.agency_id?.S !== agencyId) {
+      throw new ContractQueryError(`No contract for ${propertyId}`, 404);
+    }
+    metrics.addMetric("ContractRetrieved", MetricUnits.Count, 1);
+    return unmarshall(data.Item) as ContractDBType;
+  }
+
+  /**
+   * Lists the contracts of the caller's agency in a given status, one page at a time. Contracts of
+   * other agencies are filtered out after they are read, so a page may hold fewer than limit contracts.
+   * Resource: /contracts?status={status}&limit={limit}&next_token={next_token}
+   *
+   * @private
+   * @async
+   * @method listContractsByStatus
+   * @param {APIGatewayProxyEvent} event - The API Gateway request.
+   * @returns {Promise<ContractPage>} - A page of contracts.
+   * @throws {ContractQueryError} - If the query parameters are invalid.
+   */
+  @tracer.captureMethod()
+  private async listContractsByStatus(
+    event: APIGatewayProxyEvent
+  ): Promise<ContractPage> {
+    const status = event.queryStringParameters?.status;
+    if (!Object.values<string>(ContractStatusEnum).includes(status ?? "")) {
+      throw new ContractQueryError(
+        `Query parameter status must be one of ${Object.values(
+          ContractStatusEnum
+        ).join(", ")}`
+      );
+    }
+
+    const queryCommandInput: QueryCommandInput = {
+      TableName: DDB_TABLE,
+      IndexName: DDB_STATUS_INDEX,
+      KeyConditionExpression: "contract_status = :s",
+      FilterExpression: "agency_id = :agency_id",
+      ExpressionAttributeValues: {
+        ":s": { S: status as string },
+        ":agency_id": { S: this.agencyIdFrom(event) },
+      },
+      Limit: this.pageSizeFrom(event),
+      ExclusiveStartKey: this.decodeNextToken(
+        event.queryStringParameters?.next_token,
+        STATUS_PAGE_KEY
+      ),
+    };
+    const data = await ddbClient.send(new QueryCommand(queryCommandInput));
+
+    return {
+      contracts: (data.Items ?? []).map(
+        (item) => unmarshall(item) as ContractDBType
+      ),
+      next_token: this.encodeNextToken(data.LastEvaluatedKey),
+    };
+  }
+
+  /**
+   * Lists the contracts of the caller's agency whose seller name starts with a prefix, ignoring case,
+   * one page at a time. The first page also holds the number of matching contracts in each status.
+   * Resource: /contracts?seller_name={prefix}&limit={limit}&next_token={next_token}
+   *
+   * @private
+   * @async
+   * @method listContractsBySeller
+   * @param {APIGatewayProxyEvent} event - The API Gateway request.
+   * @returns {Promise<ContractSellerPage>} - A page of contracts and the totals per status.
+   * @throws {ContractQueryError} - If the query parameters are invalid.
+   */
+  @tracer.captureMethod()
+  private async listContractsBySeller(
+    event: APIGatewayProxyEvent
+  ): Promise<ContractSellerPage> {
+    if (event.queryStringParameters?.status !== undefined) {
+      throw new ContractQueryError(
+        "Query parameters status and seller_name cannot be combined"
+      );
+    }
+    const prefix = normaliseSellerName(
+      event.queryStringParameters?.seller_name ?? ""
+    );
+    if (prefix === "") {
+      throw new ContractQueryError("Query parameter seller_name is required");
+    }
+
+    // Sellers are partitioned by the first character of their normalised name
+    const sellerQuery: QueryCommandInput = {
+      TableName: DDB_TABLE,
+      IndexName: DDB_SELLER_INDEX,
+      KeyConditionExpression:
+        "seller_initial = :i AND begins_with(seller_search_name, :p)",
+      FilterExpression: "agency_id = :agency_id",
+      ExpressionAttributeValues: {
+        ":i": { S: prefix.charAt(0) },
+        ":p": { S: prefix },
+        ":agency_id": { S: this.agencyIdFrom(event) },
+      },
+    };
+    const exclusiveStartKey = this.decodeNextToken(
+      event.queryStringParameters?.next_token,
+      SELLER_PAGE_KEY
+    );
+    const data = await ddbClient.send(
+      new QueryCommand({
+        ...sellerQuery,
+        Limit: this.pageSizeFrom(event),
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+
+    return {
+      contracts: (data.Items ?? []).map(
+        (item) => unmarshall(item) as ContractDBType
+      ),
+      next_token: this.encodeNextToken(data.LastEvaluatedKey),
+      // Later pages leave the totals out rather than read every match again
+      totals:
+        exclusiveStartKey === undefined
+          ? await this.countByStatus(sellerQuery)
+          : undefined,
+    };
+  }
+
+  /**
+   * Counts the contracts matched by a query in each status, reading only their status.
+   *
+   * @private
+   * @async
+   * @method countByStatus
+   * @param {QueryCommandInput} queryCommandInput - The query to count the results of.
+   * @returns The number of contracts in each status.
+   */
+  @tracer.captureMethod()
+  private async countByStatus(
+    queryCommandInput: QueryCommandInput
+  ): Promise<Partial<Record<ContractStatusEnum, number>>> {
+    const totals: Partial<Record<ContractStatusEnum, number>> = {};
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+    do {
+      const data = await ddbClient.send(
+        new QueryCommand({
+          ...queryCommandInput,
+          ProjectionExpression: "contract_status",
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+      for (const item of data.Items ?? []) {
+        const status = item.contract_status?.S as ContractStatusEnum;
+        totals[status] = (totals[status] ?? 0) + 1;
+      }
+      exclusiveStartKey = data.LastEvaluatedKey;
+    } while (exclusiveStartKey !== undefined);
+    return totals;
+  }
+
+  /**
+   * Lists every recorded transition of the contracts of a property, one page at a time.
+   * Resource: /contracts/{property_id}/history?limit={limit}&next_token={next_token}
+   *
+   * @private
+   * @async
+   * @method listContractHistory
+   * @param {APIGatewayProxyEvent} event - The API Gateway request.
+   * @returns {Promise<ContractHistoryPage>} - A page of history records.
+   * @throws {ContractQueryError} - If the query parameters are invalid or the property is managed by another agency.
+   */
+  @tracer.captureMethod()
+  private async listContractHistory(
+    event: APIGatewayProxyEvent
+  ): Promise<ContractHistoryPage> {
+    const propertyId = this.propertyIdFrom(event);
+    const agencyId = this.agencyIdFrom(event);
+    tracer.putAnnotation("property_id", propertyId);
+
+    // Only the agency of a property's contract can write it, so the current contract tells which
+    // agency the whole history belongs to
+    const contract = await ddbClient.send(
+      new GetItemCommand({
+        TableName: DDB_TABLE,
+        Key: { property_id: { S: propertyId } },
+        ProjectionExpression: "agency_id",
+      })
+    );
+    if (
+      contract.Item === undefined ||
+      contract.Item.agency_id?.S !== agencyId
+    ) {
+      throw new ContractQueryError(`No contract for ${propertyId}`, 404);
+    }
+
+    const queryCommandInput: QueryCommandInput = {
+      TableName: DDB_HISTORY_TABLE,
+      KeyConditionExpression: "property_id = :p",
+      ExpressionAttributeValues: { ":p": { S: propertyId } },
+      ScanIndexForward: true,
+      Limit: this.pageSizeFrom(event),
+      ExclusiveStartKey: this.decodeNextToken(
+        event.queryStringParameters?.next_token,
+        HISTORY_PAGE_KEY
+      ),
+    };
+    const data = await ddbClient.send(new QueryCommand(queryCommandInput));
+
+    return {
+      history: (data.Items ?? []).map(
+        (item) => unmarshall(item) as ContractHistoryDBType
+      ),
+      next_token: this.encodeNextToken(data.LastEvaluatedKey),
+    };
+  }
+
+  /**
+   * Returns the outcome of a contract request sent by the caller's agency. Requests are processed
+   * after the API has answered, so a request without an outcome may still be waiting.
+   * Resource: /contracts/requests/{request_id}
+   *
+   * @private
+   * @async
+   * @method getRequestOutcome
+   * @param {APIGatewayProxyEvent} event - The API Gateway request.
+   * @returns {Promise<ContractRequestDBType>} - The outcome of the request.
+   * @throws {ContractQueryError} - If the caller's agency has no processed request with that ID.
+   */
+  @tracer.captureMethod()
+  private async getRequestOutcome(
+    event: APIGatewayProxyEvent
+  ): Promise<ContractRequestDBType> {
+    const requestId = event.pathParameters?.request_id;
+    if (requestId === undefined || requestId === "") {
+      throw new ContractQueryError("Path parameter request_id is required");
+    }
+    const agencyId = this.agencyIdFrom(event);
+    tracer.putAnnotation("request_id", requestId);
+
+    const data = await ddbClient.send(
+      new GetItemCommand({
+        TableName: DDB_REQUESTS_TABLE,
+        Key: { request_id: { S: requestId } },
+      })
+    );
+    // Requests of other agencies are reported as missing, like their contracts
+    if (data.Item === undefined || data.Item.agency_id?.S !== agencyId) {
+      throw new ContractQueryError(
+        `No outcome for request ${requestId}; it may not have been processed yet`,
+        404
+      );
+    }
+    return unmarshall(data.Item) as ContractRequestDBType;
+  }
+
+  /**
+   * Reads the property ID from the path. Property IDs contain slashes, so callers
+   * URL-encode them, e.g. usa%2Fanytown%2Fmain-street%2F111.
+   *
+   * @private
+   * @method propertyIdFrom
+   * @param {APIGatewayProxyEvent} event - The API Gateway request.
+   * @returns {string} - The decoded property ID.
+   */
+  private propertyIdFrom(event: APIGatewayProxyEvent): string {
+    const propertyId = event.pathParameters?.property_id;
+    if (propertyId === undefined || propertyId === "") {
+      throw new ContractQueryError("Path parameter property_id is required");
+    }
+    return decodeURIComponent(propertyId);
+  }
+
+  /**
+   * Reads the agency the caller acts for from the custom:agency_id claim of their ID token, as
+   * verified by the agency user pool authorizer.
+   *
+   * @private
+   * @method agencyIdFrom
+   * @param {APIGatewayProxyEvent} event - The API Gateway request.
+   * @returns {string} - The agency ID.
+   * @throws {ContractQueryError} - If the caller is not assigned to an agency.
+   */
+  private agencyIdFrom(event: APIGatewayProxyEvent): string {
+    const agencyId = event.requestContext?.authorizer?.claims?.[AGENCY_CLAIM];
+    if (typeof agencyId !== "string" || agencyId === "") {
+      throw new ContractQueryError(
+        "The caller is not assigned to an agency",
+        403
+      );
+    }
+    return agencyId;
+  }
+
+  /**
+   * Reads the requested page size, capped at MAX_PAGE_SIZE.
+   *
+   * @private
+   * @method pageSizeFrom
+   * @param {APIGatewayProxyEvent} event - The API Gateway request.
+   * @returns {number} - The page size.
+   */
+  private pageSizeFrom(event: APIGatewayProxyEvent): number {
+    const limit = event.queryStringParameters?.limit;
+    if (limit === undefined) {
+      return DEFAULT_PAGE_SIZE;
+    }
+    const pageSize = Number(limit);
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new ContractQueryError(
+        "Query parameter limit must be a positive integer"
+      );
+    }
+    return Math.min(pageSize, MAX_PAGE_SIZE);
+  }
+
+  /**
+   * Turns the DynamoDB LastEvaluatedKey into an opaque cursor.
+   *
+   * @private
+   * @method encodeNextToken
+   * @param key - The LastEvaluatedKey of the query.
+   * @returns {string | undefined} - The cursor, or undefined on the last page.
+   */
+  private encodeNextToken(
+    key: Record<string, AttributeValue> | undefined
+  ): string | undefined {
+    if (key === undefined) {
+      return undefined;
+    }
+    return Buffer.from(JSON.stringify(key)).toString("base64url");
+  }
+
+  /**
+   * Turns a cursor back into the DynamoDB ExclusiveStartKey. The cursor is sent by the client, so
+   * it has to hold exactly the string attributes of the key of the query it continues.
+   *
+   * @private
+   * @method decodeNextToken
+   * @param {string} token - The cursor returned with the previous page.
+   * @param {string[]} keyAttributes - The attributes of the key the query pages by.
+   * @returns The ExclusiveStartKey, or undefined for the first page.
+   * @throws {ContractQueryError} - If the cursor is malformed.
+   */
+  private decodeNextToken(
+    token: string | undefined,
+    keyAttributes: string[]
+  ): Record<string, AttributeValue> | undefined {
+    if (token === undefined || token === "") {
+      return undefined;
+    }
+    let key: unknown;
+    try {
+      key = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    } catch {
+      throw new ContractQueryError("Query parameter next_token is invalid");
+    }
+    const isStringAttribute = (value: unknown) =>
+      typeof value === "object" &&
+      value !== null &&
+      Object.keys(value).length === 1 &&
+      typeof (value as { S?: unknown }).S === "string";
+    if (
+      typeof key !== "object" ||
+      key === null ||
+      Array.isArray(key) ||
+      Object.keys(key).length !== keyAttributes.length ||
+      !keyAttributes.every((attribute) =>
+        isStringAttribute((key as Record<string, unknown>)[attribute])
+      )
+    ) {
+      throw new ContractQueryError("Query parameter next_token is invalid");
+    }
+    return key as Record<string, AttributeValue>;
+  }
+
+  /**
+   * Builds the API Gateway response.
+   *
+   * @private
+   * @method respond
+   * @param {number} statusCode - The HTTP status code.
+   * @param body - The response body, serialised as JSON.
+   * @param headers - Additional response headers (optional).
+   * @returns {APIGatewayProxyResult} - API Gateway Lambda Proxy Output Format
+   */
+  private respond(
+    statusCode: number,
+    body: unknown,
+    headers?: APIGatewayProxyResult["headers"]
+  ): APIGatewayProxyResult {
+    return { statusCode, headers, body: JSON.stringify(body) };
+  }
+}
+
+export const myFunction = new ContractQueryFunction();
+export const lambdaHandler = myFunction.handler.bind(myFunction);
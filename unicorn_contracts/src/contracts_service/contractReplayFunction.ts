@@ -0,0 +1,383 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { Context } from "aws-lambda";
+import { randomUUID } from "crypto";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import {
+  AttributeValue,
+  DynamoDBClient,
+  QueryCommand,
+  ScanCommand,
+  ScanCommandOutput,
+} from "@aws-sdk/client-dynamodb";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+  PutEventsRequestEntry,
+} from "@aws-sdk/client-eventbridge";
+import type { LambdaInterface } from "@aws-lambda-powertools/commons";
+import { MetricUnits } from "@aws-lambda-powertools/metrics";
+import { logger, metrics, tracer } from "./powertools";
+import { ContractDBType, ContractStatusEnum } from "./Contract";
+import {
+  CONTRACT_STATUS_CHANGED_VERSION,
+  ContractStatusChangedDetail,
+  contractStatusChangedDetail,
+} from "./contractOutbox";
+import type { PublishedContractEventDetail } from "./contractOutboxRelayFunction";
+
+// Empty configuration for DynamoDB
+const ddbClient = new DynamoDBClient({});
+const DDB_TABLE = process.env.DYNAMODB_TABLE;
+
+// Empty configuration for EventBridge
+const eventsClient = new EventBridgeClient({});
+const EVENT_BUS = process.env.EVENT_BUS;
+const SERVICE_NAMESPACE = process.env.SERVICE_NAMESPACE;
+
+const DEFAULT_EVENTS_PER_SECOND = 10;
+// PutEvents accepts up to 10 entries per call
+const MAX_ENTRIES_PER_PUT = 10;
+// A replay stops early when less time than this is left, so it can be resumed
+const STOP_BEFORE_TIMEOUT_MILLIS = 30 * 1000;
+// A dry run returns at most this many events; the others are only logged
+const MAX_DRY_RUN_EVENTS = 100;
+
+/**
+ * Defines a replay request. Every filter is optional; without filters every contract is replayed.
+ *
+ * @property contract_status - Only replay contracts in this status.
+ * @property property_id - Only replay the contract of this property.
+ * @property modified_from - Only replay contracts last modified on or after this date.
+ * @property modified_to - Only replay contracts last modified on or before this date.
+ * @property dry_run - Return the events that would be published, without publishing them.
+ * @property events_per_second - The maximum rate events are published at, 10 by default.
+ * @property start_after - Resume a replay after this property, as returned by a replay that stopped early.
+ */
+export type ContractReplayRequest = {
+  contract_status?: ContractStatusEnum;
+  property_id?: string;
+  modified_from?: string;
+  modified_to?: string;
+  dry_run?: boolean;
+  events_per_second?: number;
+  start_after?: string;
+};
+
+/**
+ * Defines the outcome of a replay.
+ *
+ * @property dry_run - Whether the events were only listed.
+ * @property replayed - The number of events published, or that would have been published.
+ * @property resume_after - Set if the replay stopped before the Lambda timed out; send it as start_after to resume.
+ * @property events - The first details that would have been published, on a dry run. At most
+ * MAX_DRY_RUN_EVENTS are returned; replayed counts them all.
+ */
+export type ContractReplayResult = {
+  dry_run: boolean;
+  replayed: number;
+  resume_after?: string;
+  events?: ReplayedContractEventDetail[];
+};
+
+/**
+ * Defines the detail of a replayed event. metadata.replay tells subscribers the contract did not
+ * change; the event repeats its current state.
+ */
+export type ReplayedContractEventDetail =
+  PublishedContractEventDetail<ContractStatusChangedDetail> & {
+    metadata: { replay: true };
+  };
+
+/**
+ * The filter of a replay, as DynamoDB expressions.
+ */
+type ContractReplayFilter = {
+  filterExpression?: string;
+  expressionAttributeValues: Record<string, AttributeValue>;
+};
+
+class ContractReplayFunction implements LambdaInterface {
+  /**
+   * Republishes a ContractStatusChanged event with the current state of each matching contract, so
+   * subscribers can rebuild their copy of contract statuses. Events are published in batches, no
+   * faster than the requested rate.
+   *
+   * @public
+   * @async
+   * @method handler
+   * @param {ContractReplayRequest} event - The contracts to replay and how.
+   * @param {Context} context - The AWS Lambda context.
+   * @returns {Promise<ContractReplayResult>} - The number of replayed events.
+   * @throws {Error} - If the request is invalid or EventBridge does not accept an event.
+   */
+  @tracer.captureLambdaHandler()
+  @metrics.logMetrics({ captureColdStartMetric: true })
+  @logger.injectLambdaContext({ logEvent: true })
+  public async handler(
+    event: ContractReplayRequest,
+    context: Context
+  ): Promise<ContractReplayResult> {
+    let filter: ContractReplayFilter;
+    try {
+      filter = this.replayFilterOf(event);
+    } catch (error) {
+      metrics.addMetric("ContractReplayRejected", MetricUnits.Count, 1);
+      throw error;
+    }
+    const dryRun = event.dry_run === true;
+    const eventsPerSecond =
+      event.events_per_second ?? DEFAULT_EVENTS_PER_SECOND;
+    // Each PutEvents call sends at most a second's worth of events
+    const batchSize = Math.max(
+      1,
+      Math.min(MAX_ENTRIES_PER_PUT, Math.floor(eventsPerSecond))
+    );
+    const result: ContractReplayResult = {
+      dry_run: dryRun,
+      replayed: 0,
+      events: dryRun ? [] : undefined,
+    };
+
+    const metricName = dryRun
+      ? "ContractEventReplayDryRun"
+      : "ContractEventReplayed";
+
+    logger.info("Replaying contracts", { request: event });
+    let exclusiveStartKey: ScanCommandOutput["LastEvaluatedKey"] =
+      event.start_after !== undefined
+        ? { property_id: { S: event.start_after } }
+        : undefined;
+    do {
+      const page = await this.findContracts(event, filter, exclusiveStartKey);
+      for (let i = 0; i < page.contracts.length; i += batchSize) {
+        if (context.getRemainingTimeInMillis() < STOP_BEFORE_TIMEOUT_MILLIS) {
+          logger.warn("Stopping replay before the function times out", {
+            resumeAfter: result.resume_after,
+          });
+          metrics.addMetric(metricName, MetricUnits.Count, result.replayed);
+          return result;
+        }
+        const batch = page.contracts.slice(i, i + batchSize);
+        const details = batch.map((contract) =>
+          this.replayedDetailOf(contract, context.awsRequestId)
+        );
+        if (dryRun) {
+          details.forEach((detail) =>
+            logger.info("Would replay contract", { detail })
+          );
+          result.events?.push(
+            ...details.slice(
+              0,
+              Math.max(0, MAX_DRY_RUN_EVENTS - result.replayed)
+            )
+          );
+        } else {
+          await this.publishThrottled(details, eventsPerSecond);
+        }
+        result.replayed += batch.length;
+        result.resume_after = batch[batch.length - 1].property_id;
+      }
+      exclusiveStartKey = page.lastEvaluatedKey;
+    } while (exclusiveStartKey !== undefined);
+
+    // Everything was replayed, there is nothing to resume
+    result.resume_after = undefined;
+    logger.info("Finished replaying contracts", {
+      dryRun,
+      replayed: result.replayed,
+    });
+    metrics.addMetric(metricName, MetricUnits.Count, result.replayed);
+    return result;
+  }
+
+  /**
+   * Validates the filters of a replay request and builds their filter expression.
+   *
+   * @private
+   * @method replayFilterOf
+   * @param {ContractReplayRequest} request - The replay request.
+   * @returns {ContractReplayFilter} - The filter expression and its values.
+   * @throws {Error} - If a filter or the rate is invalid.
+   */
+  private replayFilterOf(request: ContractReplayRequest): ContractReplayFilter {
+    const conditions: string[] = [];
+    const expressionAttributeValues: Record<string, AttributeValue> = {};
+    if (request.contract_status !== undefined) {
+      if (
+        !Object.values(ContractStatusEnum).includes(request.contract_status)
+      ) {
+        throw new Error(`Unknown contract_status ${request.contract_status}`);
+      }
+      conditions.push("contract_status = :status");
+      expressionAttributeValues[":status"] = { S: request.contract_status };
+    }
+    if (request.modified_from !== undefined) {
+      conditions.push("contract_last_modified_on >= :from");
+      expressionAttributeValues[":from"] = {
+        S: this.isoDateOf("modified_from", request.modified_from),
+      };
+    }
+    if (request.modified_to !== undefined) {
+      conditions.push("contract_last_modified_on <= :to");
+      expressionAttributeValues[":to"] = {
+        S: this.isoDateOf("modified_to", request.modified_to),
+      };
+    }
+    if (
+      request.events_per_second !== undefined &&
+      !(request.events_per_second > 0)
+    ) {
+      throw new Error("events_per_second must be greater than zero");
+    }
+    return {
+      filterExpression:
+        conditions.length > 0 ? conditions.join(" AND ") : undefined,
+      expressionAttributeValues,
+    };
+  }
+
+  /**
+   * Reads a date filter, so it compares with the ISO dates stored on contracts.
+   *
+   * @private
+   * @method isoDateOf
+   * @param {string} field - The name of the filter.
+   * @param {string} value - The date given for the filter.
+   * @returns {string} - The date in ISO format.
+   * @throws {Error} - If the value is not a date.
+   */
+  private isoDateOf(field: string, value: string): string {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`${field} must be a date, got ${value}`);
+    }
+    return date.toISOString();
+  }
+
+  /**
+   * Reads one page of the contracts to replay. The contract of a single property is read by key;
+   * otherwise the whole table is scanned.
+   *
+   * @private
+   * @async
+   * @method findContracts
+   * @param {ContractReplayRequest} request - The replay request.
+   * @param {ContractReplayFilter} filter - The filter of the request.
+   * @param exclusiveStartKey - The key to continue reading from, if any.
+   * @returns The contracts on this page and the key of the next page.
+   */
+  @tracer.captureMethod()
+  private async findContracts(
+    request: ContractReplayRequest,
+    filter: ContractReplayFilter,
+    exclusiveStartKey?: ScanCommandOutput["LastEvaluatedKey"]
+  ): Promise<{
+    contracts: ContractDBType[];
+    lastEvaluatedKey: ScanCommandOutput["LastEvaluatedKey"];
+  }> {
+    const data =
+      request.property_id !== undefined
+        ? await ddbClient.send(
+            new QueryCommand({
+              TableName: DDB_TABLE,
+              KeyConditionExpression: "property_id = :property_id",
+              FilterExpression: filter.filterExpression,
+              ExpressionAttributeValues: {
+                ":property_id": { S: request.property_id },
+                ...filter.expressionAttributeValues,
+              },
+              ExclusiveStartKey: exclusiveStartKey,
+            })
+          )
+        : await ddbClient.send(
+            new ScanCommand({
+              TableName: DDB_TABLE,
+              FilterExpression: filter.filterExpression,
+              ExpressionAttributeValues:
+                filter.filterExpression !== undefined
+                  ? filter.expressionAttributeValues
+                  : undefined,
+              ExclusiveStartKey: exclusiveStartKey,
+            })
+          );
+    const contracts = (data.Items ?? []).map(
+      (item) => unmarshall(item) as ContractDBType
+    );
+    logger.info("Found contracts to replay", { count: contracts.length });
+    return { contracts, lastEvaluatedKey: data.LastEvaluatedKey };
+  }
+
+  /**
+   * Builds the detail of the replayed event of a contract.
+   *
+   * @private
+   * @method replayedDetailOf
+   * @param {ContractDBType} contract - The contract to replay.
+   * @param {string} requestId - The ID of the replay.
+   * @returns {ReplayedContractEventDetail} - The detail to publish.
+   */
+  private replayedDetailOf(
+    contract: ContractDBType,
+    requestId: string
+  ): ReplayedContractEventDetail {
+    return {
+      ...contractStatusChangedDetail(contract),
+      metadata: {
+        event_id: randomUUID(),
+        event_type: "ContractStatusChanged",
+        event_version: CONTRACT_STATUS_CHANGED_VERSION,
+        // The state being replayed is the one of the last change
+        occurred_on:
+          contract.contract_last_modified_on ?? new Date().toISOString(),
+        request_id: requestId,
+        replay: true,
+      },
+    };
+  }
+
+  /**
+   * Publishes a batch of replayed events, then waits long enough to keep to the rate.
+   *
+   * @private
+   * @async
+   * @method publishThrottled
+   * @param {ReplayedContractEventDetail[]} details - The details to publish, at most 10.
+   * @param {number} eventsPerSecond - The maximum rate to publish at.
+   * @returns {Promise<void>}
+   * @throws {Error} - If EventBridge does not accept an event.
+   */
+  @tracer.captureMethod()
+  private async publishThrottled(
+    details: ReplayedContractEventDetail[],
+    eventsPerSecond: number
+  ): Promise<void> {
+    const startedOn = Date.now();
+    const entries: PutEventsRequestEntry[] = details.map((detail) => ({
+      EventBusName: EVENT_BUS,
+      Time: new Date(detail.metadata.occurred_on),
+      Source: SERVICE_NAMESPACE,
+      DetailType: detail.metadata.event_type,
+      Detail: JSON.stringify(detail),
+    }));
+    const eventsPutEventsCommandOutput = await eventsClient.send(
+      new PutEventsCommand({ Entries: entries })
+    );
+    if (eventsPutEventsCommandOutput.FailedEntryCount) {
+      throw new Error(
+        `EventBridge rejected replayed events: ${JSON.stringify(
+          eventsPutEventsCommandOutput.Entries
+        )}`
+      );
+    }
+
+    const wait =
+      (details.length * 1000) / eventsPerSecond - (Date.now() - startedOn);
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+}
+
+export const myFunction = new ContractReplayFunction();
+export const lambdaHandler = myFunction.handler.bind(myFunction);
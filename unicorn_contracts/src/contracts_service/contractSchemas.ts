@@ -0,0 +1,141 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import { ContractFieldError } from "./Contract";
+
+/**
+ * Request models, kept identical to the schemas of the same name in api.yaml.
+ * API Gateway validates request bodies against api.yaml; the handler validates
+ * queued requests against these.
+ */
+const AMOUNT_PATTERN = "^\\d+(\\.\\d{1,2})?$";
+
+// Terms of the sale, accepted when a contract is created and when it is updated
+const contractTermsProperties = {
+  buyer: {
+    required: ["name", "email"],
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      email: { type: "string", pattern: "^[^@\\s]+@[^@\\s]+$" },
+    },
+  },
+  price: { type: "string", pattern: AMOUNT_PATTERN },
+  currency: { type: "string", pattern: "^[A-Z]{3}$" },
+  deposit: { type: "string", pattern: AMOUNT_PATTERN },
+  closing_date: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" },
+};
+
+const addressProperty = {
+  required: ["city", "country", "number", "street"],
+  type: "object",
+  properties: {
+    country: { type: "string" },
+    city: { type: "string" },
+    street: { type: "string" },
+    number: { type: "integer" },
+  },
+};
+
+export const CreateContractModel = {
+  required: ["property_id", "seller_name", "address"],
+  type: "object",
+  properties: {
+    property_id: { type: "string" },
+    seller_name: { type: "string" },
+    address: addressProperty,
+    ...contractTermsProperties,
+  },
+};
+
+export const UpdateContractModel = {
+  required: ["property_id"],
+  type: "object",
+  properties: {
+    property_id: { type: "string" },
+    version: { type: "integer", minimum: 0 },
+    ...contractTermsProperties,
+  },
+};
+
+export const AmendContractModel = {
+  required: ["property_id"],
+  type: "object",
+  properties: {
+    property_id: { type: "string" },
+    version: { type: "integer", minimum: 0 },
+    seller_name: { type: "string" },
+    address: addressProperty,
+    ...contractTermsProperties,
+  },
+};
+
+export const CancelContractModel = {
+  required: ["property_id", "cancellation_reason"],
+  type: "object",
+  properties: {
+    property_id: { type: "string" },
+    cancellation_reason: { type: "string" },
+  },
+};
+
+export const SignContractModel = {
+  required: ["property_id", "party", "signature_reference"],
+  type: "object",
+  properties: {
+    property_id: { type: "string" },
+    party: { type: "string", enum: ["SELLER", "BUYER"] },
+    signature_reference: { type: "string", minLength: 1 },
+  },
+};
+
+const ajv = new Ajv({ allErrors: true });
+
+// Keyed by route, i.e. the HTTP method and the API resource path
+const validators: Record<string, ValidateFunction> = {
+  "POST /contracts": ajv.compile(CreateContractModel),
+  "PUT /contracts": ajv.compile(UpdateContractModel),
+  "PATCH /contracts": ajv.compile(AmendContractModel),
+  "DELETE /contracts": ajv.compile(CancelContractModel),
+  "POST /contracts/signatures": ajv.compile(SignContractModel),
+};
+
+/**
+ * Validates a contract request body against the model of its route.
+ *
+ * @param {string} route - The HTTP method and resource path of the request, e.g. "POST /contracts".
+ * @param body - The parsed request body.
+ * @returns {ContractFieldError[] | undefined} - The invalid fields, empty if the body is valid,
+ * or undefined if the route has no model.
+ */
+export function validateContractRequest(
+  route: string,
+  body: unknown
+): ContractFieldError[] | undefined {
+  const validate = validators[route];
+  if (validate === undefined) {
+    return undefined;
+  }
+  if (validate(body)) {
+    return [];
+  }
+  return (validate.errors ?? []).map(toFieldError);
+}
+
+/**
+ * Turns an Ajv error into a field error.
+ *
+ * @param {ErrorObject} error - The Ajv error.
+ * @returns {ContractFieldError} - The field error.
+ */
+function toFieldError(error: ErrorObject): ContractFieldError {
+  const path = error.instancePath.split("/").filter((part) => part !== "");
+  if (error.keyword === "required") {
+    path.push(error.params.missingProperty);
+    return { field: path.join("."), message: "is required" };
+  }
+  return {
+    field: path.length > 0 ? path.join(".") : "(body)",
+    message: error.message ?? "is invalid",
+  };
+}
@@ -1,26 +1,32 @@
-import {
-  LogItemExtraInput,
-  LogItemMessage,
-} from "@aws-lambda-powertools/logger/lib/types/Logger";
+import type { Logger as PowertoolsLogger } from "@aws-lambda-powertools/logger";
+import { LogItemMessage } from "@aws-lambda-powertools/logger/lib/types/Logger";
+
+type LoggerMethods = "injectLambdaContext" | "info" | "warn" | "error";
 
 /**
  * Stub for Powertools Logger
  */
-export class Logger {
+export class Logger implements Pick<PowertoolsLogger, LoggerMethods> {
   constructor() {
     // Leave it empty for now.
   }
 
-  injectLambdaContext(input: any) {
+  injectLambdaContext(): ReturnType<PowertoolsLogger["injectLambdaContext"]> {
     // Do nothing.
+    return () => undefined;
+  }
+
+  info(input: LogItemMessage): void {
+    // Just log to console.
+    console.log(input);
   }
 
-  info(input: LogItemMessage, ...extraInput: LogItemExtraInput): void {
+  warn(input: LogItemMessage): void {
     // Just log to console.
     console.log(input);
   }
 
-  error(input: LogItemMessage, ...extraInput: LogItemExtraInput): void {
+  error(input: LogItemMessage): void {
     // Just log to console.
     console.log(input);
   }
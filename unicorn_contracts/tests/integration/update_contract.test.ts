@@ -23,7 +23,7 @@ describe("Testing updating contracts", () => {
         const response = await fetch(`${apiUrl}contracts`, {
             method: 'PUT',
             headers: { 'content-type': 'application/json' },
-            body: '{"property_id":"usa/anytown/main-street/111"}'
+            body: '{"property_id":"usa/anytown/main-street/111","version":0}'
         })
         expect(response.status).toBe(200);
         const json = await response.json();
@@ -32,7 +32,7 @@ describe("Testing updating contracts", () => {
         const event = await getCloudWatchLogsValues("usa/anytown/main-street/111").next();
         expect(event.value['detail-type']).toEqual('ContractStatusChanged');
         expect(event.value['detail'].property_id).toEqual('usa/anytown/main-street/111');
-        expect(event.value['detail'].contract_status).toEqual('APPROVED');
+        expect(event.value['detail'].contract_status).toEqual('PENDING_SIGNATURES');
     }
     , 30000)
 
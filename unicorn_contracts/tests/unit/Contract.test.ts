@@ -0,0 +1,231 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import {
+  buildContractTransition,
+  buildTransitionCondition,
+  ContractDBType,
+  ContractEventEnum,
+  ContractPartyEnum,
+  ContractStatusEnum,
+  ContractTransitionError,
+  diffContract,
+  nextContractStatus,
+} from "../../src/contracts_service/Contract";
+
+describe("Unit tests for the contract lifecycle", function () {
+  const now = new Date("2023-11-19T02:24:11.480Z");
+  const propertyId = "usa/anytown/main-street/111";
+  // The matrix signs as the seller, on a contract nobody has signed yet
+  const context = { now, signedBy: ContractPartyEnum.SELLER };
+
+  // Expected status for every (current status, event) pair. Missing pairs are illegal.
+  const expected: Record<
+    string,
+    Partial<Record<ContractEventEnum, ContractStatusEnum>>
+  > = {
+    NONE: { CREATE: ContractStatusEnum.DRAFT },
+    DRAFT: {
+      AMEND: ContractStatusEnum.DRAFT,
+      REQUEST_SIGNATURES: ContractStatusEnum.PENDING_SIGNATURES,
+      CANCEL: ContractStatusEnum.CANCELLED,
+      EXPIRE: ContractStatusEnum.EXPIRED,
+    },
+    PENDING_SIGNATURES: {
+      SIGN: ContractStatusEnum.PENDING_SIGNATURES,
+      CANCEL: ContractStatusEnum.CANCELLED,
+    },
+    APPROVED: { CANCEL: ContractStatusEnum.CANCELLED },
+    CANCELLED: { CREATE: ContractStatusEnum.DRAFT },
+    CLOSED: { CREATE: ContractStatusEnum.DRAFT },
+    EXPIRED: { CREATE: ContractStatusEnum.DRAFT },
+  };
+
+  const contractIn = (status: string): ContractDBType | undefined =>
+    status === "NONE"
+      ? undefined
+      : {
+          property_id: propertyId,
+          contract_status: status as ContractStatusEnum,
+          expires_on: "2023-11-18T02:24:11.480Z",
+        };
+
+  for (const status of ["NONE", ...Object.values(ContractStatusEnum)]) {
+    for (const event of Object.values(ContractEventEnum)) {
+      const to = expected[status][event];
+      if (to !== undefined) {
+        test(`${status} + ${event} moves to ${to}`, () => {
+          expect(
+            nextContractStatus(contractIn(status), event, context, propertyId)
+          ).toEqual(to);
+        });
+      } else {
+        test(`${status} + ${event} is illegal`, () => {
+          expect(() =>
+            nextContractStatus(contractIn(status), event, context, propertyId)
+          ).toThrow(ContractTransitionError);
+        });
+      }
+    }
+  }
+
+  test("EXPIRE is illegal before the expiry date", () => {
+    const contract: ContractDBType = {
+      property_id: propertyId,
+      contract_status: ContractStatusEnum.DRAFT,
+      expires_on: "2023-11-20T02:24:11.480Z",
+    };
+    try {
+      nextContractStatus(contract, ContractEventEnum.EXPIRE, { now });
+      fail("Expected a ContractTransitionError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(ContractTransitionError);
+      expect((error as ContractTransitionError).propertyId).toEqual(propertyId);
+      expect((error as ContractTransitionError).from).toEqual(
+        ContractStatusEnum.DRAFT
+      );
+    }
+  });
+
+  test("the last required signature approves the contract", () => {
+    const contract: ContractDBType = {
+      property_id: propertyId,
+      contract_status: ContractStatusEnum.PENDING_SIGNATURES,
+      signatures: {
+        SELLER: { signed_on: now.toISOString(), signature_reference: "sig-1" },
+      },
+    };
+    const condition = buildContractTransition(
+      contract,
+      ContractEventEnum.SIGN,
+      { now, signedBy: ContractPartyEnum.BUYER }
+    );
+    expect(condition.to).toEqual(ContractStatusEnum.APPROVED);
+    expect(condition.conditionExpression).toEqual(
+      "(contract_status = :PENDING_SIGNATURES AND attribute_not_exists(signatures.BUYER) AND attribute_exists(signatures.SELLER))"
+    );
+  });
+
+  test("an earlier signature keeps the contract pending", () => {
+    const contract: ContractDBType = {
+      property_id: propertyId,
+      contract_status: ContractStatusEnum.PENDING_SIGNATURES,
+      signatures: {},
+    };
+    const condition = buildContractTransition(
+      contract,
+      ContractEventEnum.SIGN,
+      { now, signedBy: ContractPartyEnum.BUYER }
+    );
+    expect(condition.to).toEqual(ContractStatusEnum.PENDING_SIGNATURES);
+    expect(condition.conditionExpression).toEqual(
+      "(contract_status = :PENDING_SIGNATURES AND attribute_not_exists(signatures.BUYER) AND (attribute_not_exists(signatures.SELLER)))"
+    );
+  });
+
+  test("a party cannot sign twice", () => {
+    const contract: ContractDBType = {
+      property_id: propertyId,
+      contract_status: ContractStatusEnum.PENDING_SIGNATURES,
+      signatures: {
+        BUYER: { signed_on: now.toISOString(), signature_reference: "sig-1" },
+      },
+    };
+    expect(() =>
+      nextContractStatus(contract, ContractEventEnum.SIGN, {
+        now,
+        signedBy: ContractPartyEnum.BUYER,
+      })
+    ).toThrow(ContractTransitionError);
+  });
+
+  test("builds the CREATE condition", () => {
+    const condition = buildTransitionCondition(ContractEventEnum.CREATE, {
+      now,
+    });
+    expect(condition.to).toEqual(ContractStatusEnum.DRAFT);
+    expect(condition.conditionExpression).toEqual(
+      "attribute_not_exists(property_id) OR contract_status = :CANCELLED OR contract_status = :CLOSED OR contract_status = :EXPIRED"
+    );
+    expect(condition.expressionAttributeValues).toEqual({
+      ":CANCELLED": { S: "CANCELLED" },
+      ":CLOSED": { S: "CLOSED" },
+      ":EXPIRED": { S: "EXPIRED" },
+    });
+  });
+
+  test("builds the EXPIRE condition with its guard", () => {
+    const condition = buildTransitionCondition(ContractEventEnum.EXPIRE, {
+      now,
+    });
+    expect(condition.to).toEqual(ContractStatusEnum.EXPIRED);
+    expect(condition.conditionExpression).toEqual(
+      "(contract_status = :DRAFT AND expires_on <= :now)"
+    );
+    expect(condition.expressionAttributeValues).toEqual({
+      ":DRAFT": { S: "DRAFT" },
+      ":now": { S: now.toISOString() },
+    });
+  });
+
+  test("pins the condition to the status that was read", () => {
+    const contract: ContractDBType = {
+      property_id: propertyId,
+      contract_status: ContractStatusEnum.CANCELLED,
+    };
+    const condition = buildContractTransition(
+      contract,
+      ContractEventEnum.CREATE,
+      { now }
+    );
+    expect(condition.to).toEqual(ContractStatusEnum.DRAFT);
+    expect(condition.conditionExpression).toEqual(
+      "contract_status = :CANCELLED"
+    );
+    expect(condition.expressionAttributeValues).toEqual({
+      ":CANCELLED": { S: "CANCELLED" },
+    });
+  });
+
+  test("pins the CREATE condition to a missing contract", () => {
+    const condition = buildContractTransition(
+      undefined,
+      ContractEventEnum.CREATE,
+      { now },
+      propertyId
+    );
+    expect(condition.conditionExpression).toEqual(
+      "attribute_not_exists(property_id)"
+    );
+  });
+
+  test("rejects a pinned condition for an illegal move", () => {
+    expect(() =>
+      buildContractTransition(
+        undefined,
+        ContractEventEnum.CANCEL,
+        { now },
+        propertyId
+      )
+    ).toThrow(ContractTransitionError);
+  });
+
+  test("lists only the amended fields that change", () => {
+    const contract: ContractDBType = {
+      property_id: propertyId,
+      contract_status: ContractStatusEnum.DRAFT,
+      seller_name: "Jon Doe",
+      buyer: { name: "Jane Doe", email: "jane@example.com" },
+    };
+    expect(
+      diffContract(contract, {
+        seller_name: "John Doe",
+        // Same buyer, keys in a different order
+        buyer: { email: "jane@example.com", name: "Jane Doe" },
+        price: "350000.00",
+      })
+    ).toEqual([
+      { field: "seller_name", old_value: "Jon Doe", new_value: "John Doe" },
+      { field: "price", old_value: undefined, new_value: "350000.00" },
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import {
+  ContractDBType,
+  ContractStatusEnum,
+} from "../../src/contracts_service/Contract";
+import {
+  contractDocumentKey,
+  renderContractDocument,
+} from "../../src/contracts_service/contractDocument";
+
+describe("Unit tests for contract documents", function () {
+  const contract: ContractDBType = {
+    property_id: "usa/anytown/main-street/111",
+    contract_id: "617dda8c-e79b-406a-bc5b-3a4712f5e4d7",
+    address: {
+      country: "USA",
+      city: "Anytown",
+      street: "Main Street",
+      number: 111,
+    } as unknown as string,
+    seller_name: "John <Doe>",
+    price: "350000.00",
+    currency: "USD",
+    contract_status: ContractStatusEnum.DRAFT,
+    version: 2,
+    document_template: "v1",
+  };
+
+  test("renders the same document every time", () => {
+    expect(renderContractDocument(contract)).toEqual(
+      renderContractDocument({ ...contract })
+    );
+  });
+
+  test("renders the contract fields as escaped HTML", () => {
+    const document = renderContractDocument(contract);
+
+    expect(document).toContain("<td>111 Main Street, Anytown, USA</td>");
+    expect(document).toContain("<td>John &lt;Doe&gt;</td>");
+    expect(document).toContain("<td>350000.00 USD</td>");
+  });
+
+  test("renders contracts without a template with the first template", () => {
+    const { document_template, ...legacy } = contract;
+
+    expect(renderContractDocument(legacy)).toEqual(
+      renderContractDocument({ ...legacy, document_template })
+    );
+  });
+
+  test("rejects an unknown template", () => {
+    expect(() =>
+      renderContractDocument({ ...contract, document_template: "v0" })
+    ).toThrow("Unknown contract template v0");
+  });
+
+  test("stores every version of a contract under its own key", () => {
+    expect(contractDocumentKey(contract)).toEqual(
+      "contracts/usa%2Fanytown%2Fmain-street%2F111/617dda8c-e79b-406a-bc5b-3a4712f5e4d7/v2-v1.html"
+    );
+  });
+});
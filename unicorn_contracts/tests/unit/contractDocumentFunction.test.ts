@@ -0,0 +1,104 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { APIGatewayProxyEvent, Context } from "aws-lambda";
+import { lambdaHandler } from "../../src/contracts_service/contractDocumentFunction";
+import { mockClient } from "aws-sdk-client-mock";
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import { PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+
+jest.mock("@aws-sdk/s3-request-presigner", () => ({
+  getSignedUrl: jest.fn().mockResolvedValue("https://example.com/signed"),
+}));
+
+describe("Unit tests for contract document links", function () {
+  const ddbMock = mockClient(DynamoDBClient);
+  const s3Mock = mockClient(S3Client);
+  const documentKey =
+    "contracts/usa%2Fanytown%2Fmain-street%2F111/617dda8c-e79b-406a-bc5b-3a4712f5e4d7/v2-v1.html";
+
+  const apiEvent = {
+    resource: "/contracts/{property_id}/document",
+    httpMethod: "GET",
+    requestContext: {
+      authorizer: { claims: { "custom:agency_id": "agency-1" } },
+    },
+    pathParameters: { property_id: "usa%2Fanytown%2Fmain-street%2F111" },
+  } as unknown as APIGatewayProxyEvent;
+
+  const contractItem = (extra = {}) => ({
+    $metadata: { httpStatusCode: 200 },
+    Item: {
+      property_id: { S: "usa/anytown/main-street/111" },
+      agency_id: { S: "agency-1" },
+      contract_id: { S: "617dda8c-e79b-406a-bc5b-3a4712f5e4d7" },
+      contract_status: { S: "DRAFT" },
+      version: { N: "2" },
+      document_template: { S: "v1" },
+      ...extra,
+    },
+  });
+
+  beforeEach(() => {
+    ddbMock.reset();
+    s3Mock.reset();
+    s3Mock.on(PutObjectCommand).resolves({});
+    ddbMock.on(UpdateItemCommand).resolves({});
+  });
+
+  test("renders the current version and records its key", async () => {
+    ddbMock.on(GetItemCommand).resolves(contractItem());
+
+    const response = await lambdaHandler(apiEvent, {} as Context);
+
+    expect(response.statusCode).toEqual(200);
+    expect(JSON.parse(response.body)).toEqual({
+      document_key: documentKey,
+      template: "v1",
+      url: "https://example.com/signed",
+      expires_in: 300,
+    });
+    const put = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+    expect(put.Key).toEqual(documentKey);
+    expect(put.ContentType).toEqual("text/html; charset=utf-8");
+    const update = ddbMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+    expect(update.ExpressionAttributeValues).toEqual({
+      ":k": { S: documentKey },
+      ":v": { N: "2" },
+    });
+  });
+
+  test("does not render a version twice", async () => {
+    ddbMock
+      .on(GetItemCommand)
+      .resolves(contractItem({ document_key: { S: documentKey } }));
+
+    const response = await lambdaHandler(apiEvent, {} as Context);
+
+    expect(response.statusCode).toEqual(200);
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+    expect(ddbMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+  });
+
+  test("returns 404 when the property has no contract", async () => {
+    ddbMock.on(GetItemCommand).resolves({ $metadata: { httpStatusCode: 200 } });
+
+    const response = await lambdaHandler(apiEvent, {} as Context);
+
+    expect(response.statusCode).toEqual(404);
+  });
+
+  test("does not render the contract of another agency", async () => {
+    ddbMock
+      .on(GetItemCommand)
+      .resolves(contractItem({ agency_id: { S: "agency-2" } }));
+
+    const response = await lambdaHandler(apiEvent, {} as Context);
+
+    expect(response.statusCode).toEqual(404);
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+  });
+});
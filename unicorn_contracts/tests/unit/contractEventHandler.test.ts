@@ -0,0 +1,824 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { Context, SQSEvent, SQSRecord } from "aws-lambda";
+import { randomUUID } from "crypto";
+import { lambdaHandler } from "../../src/contracts_service/contractEventHandler";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import {
+  AttributeValue,
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+  PutItemCommandInput,
+  TransactionCanceledException,
+  TransactWriteItemsCommand,
+  UpdateItemCommand,
+  UpdateItemCommandInput,
+} from "@aws-sdk/client-dynamodb";
+import {
+  SendMessageCommand,
+  SendMessageCommandInput,
+  SQSClient,
+} from "@aws-sdk/client-sqs";
+
+describe("Unit tests for contract request processing", function () {
+  const ddbMock = mockClient(DynamoDBClient);
+  const sqsMock = mockClient(SQSClient);
+  let idempotencyRecords: Record<string, Record<string, AttributeValue>>;
+  let requestOutcomes: Record<string, unknown>[];
+
+  const context = {
+    awsRequestId: randomUUID(),
+    getRemainingTimeInMillis: () => 15000,
+  } as unknown as Context;
+
+  const createRecord = (
+    attributes: SQSRecord["messageAttributes"] = {}
+  ): SQSRecord =>
+    ({
+      messageId: randomUUID(),
+      body: JSON.stringify({
+        property_id: "usa/anytown/main-street/111",
+        seller_name: "John Doe",
+        address: {
+          country: "USA",
+          city: "Anytown",
+          street: "Main Street",
+          number: 111,
+        },
+      }),
+      messageAttributes: {
+        HttpMethod: { stringValue: "POST", dataType: "String" },
+        AgencyId: { stringValue: "agency-1", dataType: "String" },
+        ...attributes,
+      },
+    } as unknown as SQSRecord);
+
+  const sqsEvent = (...records: SQSRecord[]): SQSEvent => ({
+    Records: records,
+  });
+
+  beforeEach(() => {
+    ddbMock.reset();
+    sqsMock.reset();
+    idempotencyRecords = {};
+    requestOutcomes = [];
+
+    // In-memory idempotency table; the outcomes of the requests are kept apart
+    ddbMock.on(PutItemCommand).callsFake((input: PutItemCommandInput) => {
+      if (input.Item?.request_id !== undefined) {
+        requestOutcomes.push(unmarshall(input.Item));
+        return { $metadata: { httpStatusCode: 200 } };
+      }
+      const id = input.Item?.id.S as string;
+      if (idempotencyRecords[id] !== undefined) {
+        throw new ConditionalCheckFailedException({
+          message: "The conditional request failed",
+          $metadata: {},
+          Item: idempotencyRecords[id],
+        });
+      }
+      idempotencyRecords[id] = input.Item as Record<string, AttributeValue>;
+      return { $metadata: { httpStatusCode: 200 } };
+    });
+    ddbMock.on(UpdateItemCommand).callsFake((input: UpdateItemCommandInput) => {
+      const id = input.Key?.id.S as string;
+      const values = input.ExpressionAttributeValues ?? {};
+      idempotencyRecords[id] = {
+        ...idempotencyRecords[id],
+        data: values[":response_data"],
+        expiration: values[":expiry"],
+        status: values[":status"],
+        validation: values[":validation_key"],
+      };
+      return { $metadata: { httpStatusCode: 200 } };
+    });
+
+    // No contract exists for the property yet
+    ddbMock.on(GetItemCommand).resolves({ $metadata: { httpStatusCode: 200 } });
+    ddbMock
+      .on(TransactWriteItemsCommand)
+      .resolves({ $metadata: { httpStatusCode: 200 } });
+  });
+
+  test("creates a contract once when the same message is delivered twice", async () => {
+    const record = createRecord();
+
+    await lambdaHandler(sqsEvent(record), context);
+    await lambdaHandler(sqsEvent(record), context);
+
+    expect(ddbMock.commandCalls(TransactWriteItemsCommand)).toHaveLength(1);
+  });
+
+  test("creates a contract once for two messages with the same Idempotency-Key", async () => {
+    const idempotencyKey = {
+      IdempotencyKey: { stringValue: randomUUID(), dataType: "String" },
+    };
+
+    await lambdaHandler(sqsEvent(createRecord(idempotencyKey)), context);
+    await lambdaHandler(sqsEvent(createRecord(idempotencyKey)), context);
+
+    expect(ddbMock.commandCalls(TransactWriteItemsCommand)).toHaveLength(1);
+  });
+
+  test("records the outcome of a request by its request ID", async () => {
+    const record = createRecord({
+      RequestId: { stringValue: "request-1", dataType: "String" },
+    } as unknown as SQSRecord["messageAttributes"]);
+
+    await lambdaHandler(sqsEvent(record), context);
+
+    expect(requestOutcomes).toEqual([
+      expect.objectContaining({
+        request_id: "request-1",
+        agency_id: "agency-1",
+        request_status: "ACCEPTED",
+        property_id: "usa/anytown/main-street/111",
+        version: 1,
+      }),
+    ]);
+  });
+
+  test("creates a contract per agency that sends the same Idempotency-Key", async () => {
+    const idempotencyKey = {
+      IdempotencyKey: { stringValue: randomUUID(), dataType: "String" },
+    };
+
+    await lambdaHandler(sqsEvent(createRecord(idempotencyKey)), context);
+    await lambdaHandler(
+      sqsEvent(
+        createRecord({
+          ...idempotencyKey,
+          AgencyId: { stringValue: "agency-2", dataType: "String" },
+        } as unknown as SQSRecord["messageAttributes"])
+      ),
+      context
+    );
+
+    expect(ddbMock.commandCalls(TransactWriteItemsCommand)).toHaveLength(2);
+  });
+
+  test("creates a contract per message without an Idempotency-Key", async () => {
+    await lambdaHandler(sqsEvent(createRecord()), context);
+    await lambdaHandler(sqsEvent(createRecord()), context);
+
+    expect(ddbMock.commandCalls(TransactWriteItemsCommand)).toHaveLength(2);
+  });
+
+  test("queues a ContractStatusChanged event in the transaction of a new contract", async () => {
+    await lambdaHandler(sqsEvent(createRecord()), context);
+
+    const [contractPut, , outboxPut] =
+      ddbMock.commandCalls(TransactWriteItemsCommand)[0].args[0].input
+        .TransactItems ?? [];
+    const outboxEntry = unmarshall(outboxPut.Put?.Item ?? {});
+    expect(outboxPut.Put?.ConditionExpression).toEqual(
+      "attribute_not_exists(sequence)"
+    );
+    expect(outboxEntry).toMatchObject({
+      event_type: "ContractStatusChanged",
+      event_version: 1,
+      property_id: "usa/anytown/main-street/111",
+      sequence: "0000000001#ContractStatusChanged",
+      detail: {
+        property_id: "usa/anytown/main-street/111",
+        agency_id: "agency-1",
+        contract_id: contractPut.Put?.Item?.contract_id.S,
+        contract_status: "DRAFT",
+        version: 1,
+      },
+    });
+    expect(contractPut.Put?.Item?.agency_id).toEqual({ S: "agency-1" });
+    expect(outboxEntry.occurred_on).toEqual(
+      contractPut.Put?.Item?.contract_last_modified_on.S
+    );
+    expect(outboxEntry.expiration).toBeGreaterThan(Date.now() / 1000);
+  });
+
+  test("indexes a new contract by its normalised seller name", async () => {
+    const record = {
+      ...createRecord(),
+      body: JSON.stringify({
+        ...JSON.parse(createRecord().body),
+        seller_name: "  John   DOE ",
+      }),
+    };
+
+    await lambdaHandler(sqsEvent(record), context);
+
+    const contractPut = ddbMock.commandCalls(TransactWriteItemsCommand)[0]
+      .args[0].input.TransactItems?.[0].Put;
+    expect(contractPut?.Item).toMatchObject({
+      seller_name: { S: "  John   DOE " },
+      seller_search_name: { S: "john doe" },
+      seller_initial: { S: "j" },
+    });
+  });
+
+  test("queues the whole contract, not only the updated fields, in the outbox", async () => {
+    const contractId = randomUUID();
+    ddbMock.on(GetItemCommand).resolves({
+      $metadata: { httpStatusCode: 200 },
+      Item: {
+        property_id: { S: "usa/anytown/main-street/111" },
+        agency_id: { S: "agency-1" },
+        contract_id: { S: contractId },
+        contract_status: { S: "DRAFT" },
+        price: { S: "300000.00" },
+        currency: { S: "USD" },
+        version: { N: "1" },
+      },
+    });
+    const record = {
+      ...createRecord({
+        HttpMethod: { stringValue: "PUT", dataType: "String" },
+      } as unknown as SQSRecord["messageAttributes"]),
+      body: JSON.stringify({
+        property_id: "usa/anytown/main-street/111",
+        version: 1,
+        price: "350000.00",
+      }),
+    };
+
+    await lambdaHandler(sqsEvent(record), context);
+
+    const outboxPut = ddbMock.commandCalls(TransactWriteItemsCommand)[0].args[0]
+      .input.TransactItems?.[2].Put;
+    expect(unmarshall(outboxPut?.Item ?? {}).detail).toMatchObject({
+      contract_id: contractId,
+      contract_status: "PENDING_SIGNATURES",
+      price: "350000.00",
+      currency: "USD",
+      version: 2,
+    });
+  });
+
+  test("persists the terms of the sale sent with an update", async () => {
+    ddbMock.on(GetItemCommand).resolves({
+      $metadata: { httpStatusCode: 200 },
+      Item: {
+        property_id: { S: "usa/anytown/main-street/111" },
+        agency_id: { S: "agency-1" },
+        contract_id: { S: randomUUID() },
+        contract_status: { S: "DRAFT" },
+        version: { N: "1" },
+      },
+    });
+    const record = {
+      ...createRecord({
+        HttpMethod: { stringValue: "PUT", dataType: "String" },
+      } as unknown as SQSRecord["messageAttributes"]),
+      body: JSON.stringify({
+        property_id: "usa/anytown/main-street/111",
+        version: 1,
+        buyer: { name: "Jane Doe", email: "jane@example.com" },
+        price: "350000.00",
+        currency: "USD",
+      }),
+    };
+
+    const response = await lambdaHandler(sqsEvent(record), context);
+
+    expect(response.batchItemFailures).toEqual([]);
+    const update = ddbMock.commandCalls(TransactWriteItemsCommand)[0].args[0]
+      .input.TransactItems?.[0].Update;
+    expect(update?.UpdateExpression).toEqual(
+      "set contract_status = :t, contract_last_modified_on = :m, signatures = :signatures, version = :version, agency_id = :agency_id, buyer = :buyer, price = :price, currency = :currency"
+    );
+    expect(update?.ExpressionAttributeValues?.[":buyer"]).toEqual({
+      M: { name: { S: "Jane Doe" }, email: { S: "jane@example.com" } },
+    });
+    expect(update?.ExpressionAttributeValues?.[":price"]).toEqual({
+      S: "350000.00",
+    });
+    expect(update?.ExpressionAttributeValues?.[":t"]).toEqual({
+      S: "PENDING_SIGNATURES",
+    });
+    expect(update?.ExpressionAttributeValues?.[":version"]).toEqual({
+      N: "2",
+    });
+  });
+
+  test("records when an update was made as contract_last_modified_on", async () => {
+    ddbMock.on(GetItemCommand).resolves(draftContract("1"));
+    const before = new Date().toISOString();
+
+    await lambdaHandler(
+      sqsEvent(updateRecord({ version: 1, price: "350000.00" })),
+      context
+    );
+
+    const [update, history] =
+      ddbMock.commandCalls(TransactWriteItemsCommand)[0].args[0].input
+        .TransactItems ?? [];
+    const modifiedOn = update.Update?.ExpressionAttributeValues?.[":m"].S ?? "";
+    expect(update.Update?.UpdateExpression).toContain(
+      "contract_last_modified_on = :m"
+    );
+    expect(modifiedOn >= before).toBe(true);
+    expect(modifiedOn <= new Date().toISOString()).toBe(true);
+    expect(unmarshall(history.Put?.Item ?? {}).changed_on).toEqual(modifiedOn);
+  });
+
+  const updateRecord = (
+    body: Record<string, unknown>,
+    attributes: SQSRecord["messageAttributes"] = {}
+  ): SQSRecord => ({
+    ...createRecord({
+      HttpMethod: { stringValue: "PUT", dataType: "String" },
+      ...attributes,
+    } as unknown as SQSRecord["messageAttributes"]),
+    body: JSON.stringify({
+      property_id: "usa/anytown/main-street/111",
+      ...body,
+    }),
+  });
+
+  const draftContract = (version: string) => ({
+    $metadata: { httpStatusCode: 200 },
+    Item: {
+      property_id: { S: "usa/anytown/main-street/111" },
+      agency_id: { S: "agency-1" },
+      contract_id: { S: randomUUID() },
+      contract_status: { S: "DRAFT" },
+      version: { N: version },
+    },
+  });
+
+  test("takes the expected version from the If-Match header", async () => {
+    ddbMock.on(GetItemCommand).resolves(draftContract("3"));
+    const record = updateRecord({ price: "350000.00" }, {
+      IfMatch: { stringValue: '"3"', dataType: "String" },
+    } as unknown as SQSRecord["messageAttributes"]);
+
+    const response = await lambdaHandler(sqsEvent(record), context);
+
+    expect(response.batchItemFailures).toEqual([]);
+    const update = ddbMock.commandCalls(TransactWriteItemsCommand)[0].args[0]
+      .input.TransactItems?.[0].Update;
+    expect(update?.ConditionExpression).toEqual(
+      "contract_status = :DRAFT AND version = :expected_version AND agency_id = :agency_id"
+    );
+    expect(update?.ExpressionAttributeValues?.[":expected_version"]).toEqual({
+      N: "3",
+    });
+  });
+
+  test("moves an update without a version to the DLQ", async () => {
+    sqsMock.on(SendMessageCommand).resolves({});
+    ddbMock.on(GetItemCommand).resolves(draftContract("3"));
+
+    const response = await lambdaHandler(
+      sqsEvent(updateRecord({ price: "350000.00" })),
+      context
+    );
+
+    expect(response.batchItemFailures).toEqual([]);
+    expect(ddbMock.commandCalls(TransactWriteItemsCommand)).toHaveLength(0);
+    const input = sqsMock.commandCalls(SendMessageCommand)[0].args[0]
+      .input as SendMessageCommandInput;
+    expect(input.MessageAttributes?.FailureReason.StringValue).toEqual(
+      "ValidationFailed"
+    );
+  });
+
+  test("rejects an update based on an older version", async () => {
+    sqsMock.on(SendMessageCommand).resolves({});
+    ddbMock.on(GetItemCommand).resolves(draftContract("4"));
+
+    const response = await lambdaHandler(
+      sqsEvent(updateRecord({ version: 3, price: "350000.00" })),
+      context
+    );
+
+    expect(response.batchItemFailures).toEqual([]);
+    expect(ddbMock.commandCalls(TransactWriteItemsCommand)).toHaveLength(0);
+    const input = sqsMock.commandCalls(SendMessageCommand)[0].args[0]
+      .input as SendMessageCommandInput;
+    expect(input.MessageAttributes?.FailureReason.StringValue).toEqual(
+      "ContractVersionConflict"
+    );
+    expect(requestOutcomes).toEqual([
+      expect.objectContaining({
+        request_status: "REJECTED",
+        agency_id: "agency-1",
+        failure_reason: "ContractVersionConflict",
+      }),
+    ]);
+  });
+
+  test("moves a request for a contract of another agency to the DLQ", async () => {
+    sqsMock.on(SendMessageCommand).resolves({});
+    ddbMock.on(GetItemCommand).resolves(draftContract("3"));
+
+    const response = await lambdaHandler(
+      sqsEvent(
+        updateRecord({ version: 3, price: "350000.00" }, {
+          AgencyId: { stringValue: "agency-2", dataType: "String" },
+        } as unknown as SQSRecord["messageAttributes"])
+      ),
+      context
+    );
+
+    expect(response.batchItemFailures).toEqual([]);
+    expect(ddbMock.commandCalls(TransactWriteItemsCommand)).toHaveLength(0);
+    const input = sqsMock.commandCalls(SendMessageCommand)[0].args[0]
+      .input as SendMessageCommandInput;
+    expect(input.MessageAttributes?.FailureReason.StringValue).toEqual(
+      "AgencyMismatch"
+    );
+  });
+
+  test("lets an agency take over a contract written before agencies were kept", async () => {
+    const legacyContract = draftContract("3");
+    delete (legacyContract.Item as Record<string, unknown>).agency_id;
+    ddbMock.on(GetItemCommand).resolves(legacyContract);
+
+    const response = await lambdaHandler(
+      sqsEvent(updateRecord({ version: 3, price: "350000.00" })),
+      context
+    );
+
+    expect(response.batchItemFailures).toEqual([]);
+    const update = ddbMock.commandCalls(TransactWriteItemsCommand)[0].args[0]
+      .input.TransactItems?.[0].Update;
+    expect(update?.ConditionExpression).toEqual(
+      "contract_status = :DRAFT AND version = :expected_version AND (agency_id = :agency_id OR attribute_not_exists(agency_id))"
+    );
+    expect(update?.UpdateExpression).toContain("agency_id = :agency_id");
+    expect(update?.ExpressionAttributeValues?.[":agency_id"]).toEqual({
+      S: "agency-1",
+    });
+  });
+
+  test("moves a request without an agency to the DLQ", async () => {
+    sqsMock.on(SendMessageCommand).resolves({});
+    const record = createRecord();
+    delete record.messageAttributes.AgencyId;
+
+    const response = await lambdaHandler(sqsEvent(record), context);
+
+    expect(response.batchItemFailures).toEqual([]);
+    expect(ddbMock.commandCalls(TransactWriteItemsCommand)).toHaveLength(0);
+    const input = sqsMock.commandCalls(SendMessageCommand)[0].args[0]
+      .input as SendMessageCommandInput;
+    expect(input.MessageAttributes?.ValidationErrors.StringValue).toEqual(
+      JSON.stringify([{ field: "AgencyId", message: "is required" }])
+    );
+  });
+
+  test("rejects an update that loses the race to a concurrent write", async () => {
+    sqsMock.on(SendMessageCommand).resolves({});
+    ddbMock.on(GetItemCommand).resolves(draftContract("3"));
+    ddbMock.on(TransactWriteItemsCommand).rejects(
+      new TransactionCanceledException({
+        message: "Transaction cancelled",
+        $metadata: {},
+        CancellationReasons: [
+          { Code: "ConditionalCheckFailed", Item: draftContract("4").Item },
+          { Code: "None" },
+        ],
+      })
+    );
+
+    const response = await lambdaHandler(
+      sqsEvent(updateRecord({ version: 3, price: "350000.00" })),
+      context
+    );
+
+    expect(response.batchItemFailures).toEqual([]);
+    const input = sqsMock.commandCalls(SendMessageCommand)[0].args[0]
+      .input as SendMessageCommandInput;
+    expect(input.MessageAttributes?.FailureReason.StringValue).toEqual(
+      "ContractVersionConflict"
+    );
+  });
+
+  test("amends only the supplied fields of a draft and publishes the changes", async () => {
+    ddbMock.on(GetItemCommand).resolves({
+      $metadata: { httpStatusCode: 200 },
+      Item: {
+        property_id: { S: "usa/anytown/main-street/111" },
+        agency_id: { S: "agency-1" },
+        contract_id: { S: "617dda8c-e79b-406a-bc5b-3a4712f5e4d7" },
+        contract_status: { S: "DRAFT" },
+        seller_name: { S: "Jon Doe" },
+        price: { S: "350000.00" },
+        version: { N: "2" },
+      },
+    });
+    const record = updateRecord(
+      { version: 2, seller_name: "John Doe", price: "350000.00" },
+      {
+        HttpMethod: { stringValue: "PATCH", dataType: "String" },
+      } as unknown as SQSRecord["messageAttributes"]
+    );
+
+    const response = await lambdaHandler(sqsEvent(record), context);
+
+    expect(response.batchItemFailures).toEqual([]);
+    const [update, history, outbox, amended] =
+      ddbMock.commandCalls(TransactWriteItemsCommand)[0].args[0].input
+        .TransactItems ?? [];
+    expect(update.Update?.UpdateExpression).toEqual(
+      "set contract_last_modified_on = :m, version = :version, agency_id = :agency_id, seller_name = :seller_name, seller_search_name = :seller_search_name, seller_initial = :seller_initial"
+    );
+    expect(update.Update?.ExpressionAttributeValues).toMatchObject({
+      ":seller_search_name": { S: "john doe" },
+      ":seller_initial": { S: "j" },
+    });
+    expect(update.Update?.ConditionExpression).toEqual(
+      "contract_status = :DRAFT AND version = :expected_version AND agency_id = :agency_id"
+    );
+    expect(history.Put?.Item?.event).toEqual({ S: "AMEND" });
+    expect(unmarshall(outbox.Put?.Item ?? {}).event_type).toEqual(
+      "ContractStatusChanged"
+    );
+    const amendedEntry = unmarshall(amended.Put?.Item ?? {});
+    expect(amendedEntry.event_type).toEqual("ContractAmended");
+    expect(amendedEntry.sequence).toEqual("0000000003#ContractAmended");
+    expect(amendedEntry.detail).toMatchObject({
+      property_id: "usa/anytown/main-street/111",
+      contract_id: "617dda8c-e79b-406a-bc5b-3a4712f5e4d7",
+      version: 3,
+      changes: [
+        { field: "seller_name", old_value: "Jon Doe", new_value: "John Doe" },
+      ],
+    });
+  });
+
+  test("takes a contract out of the seller index when its seller name is cleared", async () => {
+    ddbMock.on(GetItemCommand).resolves({
+      $metadata: { httpStatusCode: 200 },
+      Item: {
+        property_id: { S: "usa/anytown/main-street/111" },
+        agency_id: { S: "agency-1" },
+        contract_id: { S: randomUUID() },
+        contract_status: { S: "DRAFT" },
+        seller_name: { S: "Jon Doe" },
+        seller_search_name: { S: "jon doe" },
+        seller_initial: { S: "j" },
+        version: { N: "2" },
+      },
+    });
+    const record = updateRecord({ version: 2, seller_name: " " }, {
+      HttpMethod: { stringValue: "PATCH", dataType: "String" },
+    } as unknown as SQSRecord["messageAttributes"]);
+
+    const response = await lambdaHandler(sqsEvent(record), context);
+
+    expect(response.batchItemFailures).toEqual([]);
+    const update = ddbMock.commandCalls(TransactWriteItemsCommand)[0].args[0]
+      .input.TransactItems?.[0].Update;
+    expect(update?.UpdateExpression).toEqual(
+      "set contract_last_modified_on = :m, version = :version, agency_id = :agency_id, seller_name = :seller_name remove seller_search_name, seller_initial"
+    );
+  });
+
+  test("moves an amendment without any field to amend to the DLQ", async () => {
+    sqsMock.on(SendMessageCommand).resolves({});
+    ddbMock.on(GetItemCommand).resolves(draftContract("2"));
+    const record = updateRecord({ version: 2 }, {
+      HttpMethod: { stringValue: "PATCH", dataType: "String" },
+    } as unknown as SQSRecord["messageAttributes"]);
+
+    const response = await lambdaHandler(sqsEvent(record), context);
+
+    expect(response.batchItemFailures).toEqual([]);
+    expect(ddbMock.commandCalls(TransactWriteItemsCommand)).toHaveLength(0);
+    const input = sqsMock.commandCalls(SendMessageCommand)[0].args[0]
+      .input as SendMessageCommandInput;
+    expect(input.MessageAttributes?.FailureReason.StringValue).toEqual(
+      "ValidationFailed"
+    );
+  });
+
+  const signatureRecord = (party: string): SQSRecord => ({
+    ...createRecord({
+      ResourcePath: {
+        stringValue: "/contracts/signatures",
+        dataType: "String",
+      },
+    } as unknown as SQSRecord["messageAttributes"]),
+    body: JSON.stringify({
+      property_id: "usa/anytown/main-street/111",
+      party,
+      signature_reference: randomUUID(),
+    }),
+  });
+
+  const pendingContract = (signatures: Record<string, AttributeValue>) => ({
+    $metadata: { httpStatusCode: 200 },
+    Item: {
+      property_id: { S: "usa/anytown/main-street/111" },
+      agency_id: { S: "agency-1" },
+      contract_id: { S: randomUUID() },
+      contract_status: { S: "PENDING_SIGNATURES" },
+      signatures: { M: signatures },
+    },
+  });
+
+  test("keeps a contract pending until every party has signed", async () => {
+    ddbMock.on(GetItemCommand).resolves(pendingContract({}));
+
+    const response = await lambdaHandler(
+      sqsEvent(signatureRecord("SELLER")),
+      context
+    );
+
+    expect(response.batchItemFailures).toEqual([]);
+    const [update, history] =
+      ddbMock.commandCalls(TransactWriteItemsCommand)[0].args[0].input
+        .TransactItems ?? [];
+    expect(update.Update?.UpdateExpression).toEqual(
+      "set signatures.SELLER = :s, contract_status = :t, contract_last_modified_on = :m, version = :version, agency_id = :agency_id"
+    );
+    expect(update.Update?.ExpressionAttributeValues?.[":t"]).toEqual({
+      S: "PENDING_SIGNATURES",
+    });
+    expect(history.Put?.Item?.signed_by).toEqual({ S: "SELLER" });
+  });
+
+  test("approves a contract when the last party signs", async () => {
+    ddbMock.on(GetItemCommand).resolves(
+      pendingContract({
+        SELLER: {
+          M: {
+            signed_on: { S: "2023-11-19T02:24:11.480Z" },
+            signature_reference: { S: "sig-1" },
+          },
+        },
+      })
+    );
+
+    const response = await lambdaHandler(
+      sqsEvent(signatureRecord("BUYER")),
+      context
+    );
+
+    expect(response.batchItemFailures).toEqual([]);
+    const update = ddbMock.commandCalls(TransactWriteItemsCommand)[0].args[0]
+      .input.TransactItems?.[0].Update;
+    expect(update?.ExpressionAttributeValues?.[":t"]).toEqual({
+      S: "APPROVED",
+    });
+    expect(update?.ConditionExpression).toEqual(
+      "(contract_status = :PENDING_SIGNATURES AND attribute_not_exists(signatures.BUYER) AND attribute_exists(signatures.SELLER)) AND attribute_not_exists(version) AND agency_id = :agency_id"
+    );
+  });
+
+  const cancelRecord = (): SQSRecord => ({
+    ...createRecord({
+      HttpMethod: { stringValue: "DELETE", dataType: "String" },
+    } as unknown as SQSRecord["messageAttributes"]),
+    body: JSON.stringify({
+      property_id: "usa/anytown/main-street/111",
+      cancellation_reason: "The seller withdrew the property",
+    }),
+  });
+
+  test("cancels a contract with its reason", async () => {
+    ddbMock.on(GetItemCommand).resolves(draftContract("3"));
+
+    const response = await lambdaHandler(sqsEvent(cancelRecord()), context);
+
+    expect(response.batchItemFailures).toEqual([]);
+    const [update, history, outbox] =
+      ddbMock.commandCalls(TransactWriteItemsCommand)[0].args[0].input
+        .TransactItems ?? [];
+    expect(update.Update?.UpdateExpression).toEqual(
+      "set contract_status = :t, contract_last_modified_on = :m, cancellation_reason = :r, version = :version, agency_id = :agency_id"
+    );
+    expect(update.Update?.ConditionExpression).toEqual(
+      "contract_status = :DRAFT AND version = :expected_version AND agency_id = :agency_id"
+    );
+    expect(update.Update?.ExpressionAttributeValues?.[":t"]).toEqual({
+      S: "CANCELLED",
+    });
+    expect(update.Update?.ExpressionAttributeValues?.[":r"]).toEqual({
+      S: "The seller withdrew the property",
+    });
+    expect(update.Update?.ExpressionAttributeValues?.[":version"]).toEqual({
+      N: "4",
+    });
+    expect(unmarshall(history.Put?.Item ?? {})).toMatchObject({
+      agency_id: "agency-1",
+      event: "CANCEL",
+      from_status: "DRAFT",
+      to_status: "CANCELLED",
+      cancellation_reason: "The seller withdrew the property",
+    });
+    expect(outbox.Put).toBeDefined();
+  });
+
+  test("moves a cancellation of a contract that changed since it was read to the DLQ", async () => {
+    sqsMock.on(SendMessageCommand).resolves({});
+    ddbMock.on(GetItemCommand).resolves(draftContract("3"));
+    ddbMock.on(TransactWriteItemsCommand).rejects(
+      new TransactionCanceledException({
+        message: "Transaction cancelled",
+        $metadata: {},
+        CancellationReasons: [{ Code: "ConditionalCheckFailed" }],
+      })
+    );
+
+    const response = await lambdaHandler(sqsEvent(cancelRecord()), context);
+
+    expect(response.batchItemFailures).toEqual([]);
+    const input = sqsMock.commandCalls(SendMessageCommand)[0].args[0]
+      .input as SendMessageCommandInput;
+    expect(input.MessageAttributes?.FailureReason.StringValue).toEqual(
+      "ContractTransition"
+    );
+  });
+
+  test("moves a record with an invalid body to the DLQ", async () => {
+    sqsMock.on(SendMessageCommand).resolves({});
+    const record = { ...createRecord(), body: "{ not json" };
+
+    const response = await lambdaHandler(sqsEvent(record), context);
+
+    expect(response.batchItemFailures).toEqual([]);
+    const input = sqsMock.commandCalls(SendMessageCommand)[0].args[0]
+      .input as SendMessageCommandInput;
+    expect(input.MessageBody).toEqual("{ not json");
+    expect(input.MessageAttributes?.FailureReason.StringValue).toEqual(
+      "InvalidJson"
+    );
+    expect(input.MessageAttributes?.HttpMethod.StringValue).toEqual("POST");
+  });
+
+  test("moves a record with an unsupported method to the DLQ", async () => {
+    sqsMock.on(SendMessageCommand).resolves({});
+    const record = createRecord({
+      HttpMethod: { stringValue: "GET", dataType: "String" },
+    } as unknown as SQSRecord["messageAttributes"]);
+
+    const response = await lambdaHandler(sqsEvent(record), context);
+
+    expect(response.batchItemFailures).toEqual([]);
+    const input = sqsMock.commandCalls(SendMessageCommand)[0].args[0]
+      .input as SendMessageCommandInput;
+    expect(input.MessageAttributes?.FailureReason.StringValue).toEqual(
+      "UnsupportedMethod"
+    );
+  });
+
+  test("moves a record that fails validation to the DLQ with its field errors", async () => {
+    sqsMock.on(SendMessageCommand).resolves({});
+    const record = {
+      ...createRecord(),
+      body: JSON.stringify({ property_id: "usa/anytown/main-street/111" }),
+    };
+
+    const response = await lambdaHandler(sqsEvent(record), context);
+
+    expect(response.batchItemFailures).toEqual([]);
+    expect(ddbMock.commandCalls(TransactWriteItemsCommand)).toHaveLength(0);
+    const input = sqsMock.commandCalls(SendMessageCommand)[0].args[0]
+      .input as SendMessageCommandInput;
+    expect(input.MessageAttributes?.FailureReason.StringValue).toEqual(
+      "ValidationFailed"
+    );
+    expect(
+      JSON.parse(
+        input.MessageAttributes?.ValidationErrors.StringValue as string
+      )
+    ).toEqual([
+      { field: "seller_name", message: "is required" },
+      { field: "address", message: "is required" },
+    ]);
+  });
+
+  test("reports only the records that failed", async () => {
+    const succeeding = createRecord();
+    const failing = createRecord();
+    ddbMock
+      .on(TransactWriteItemsCommand)
+      .resolvesOnce({ $metadata: { httpStatusCode: 200 } })
+      .rejectsOnce(new Error("Throttled"));
+
+    const response = await lambdaHandler(
+      sqsEvent(succeeding, failing),
+      context
+    );
+
+    expect(response.batchItemFailures).toEqual([
+      { itemIdentifier: failing.messageId },
+    ]);
+    expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(0);
+  });
+
+  test("retries an invalid record when it cannot be moved to the DLQ", async () => {
+    sqsMock.on(SendMessageCommand).rejects(new Error("Access denied"));
+    const record = { ...createRecord(), body: "{ not json" };
+
+    const response = await lambdaHandler(sqsEvent(record), context);
+
+    expect(response.batchItemFailures).toEqual([
+      { itemIdentifier: record.messageId },
+    ]);
+  });
+});
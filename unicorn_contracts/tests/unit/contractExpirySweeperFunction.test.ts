@@ -0,0 +1,120 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { Context, ScheduledEvent } from "aws-lambda";
+import { randomUUID } from "crypto";
+import { lambdaHandler } from "../../src/contracts_service/contractExpirySweeperFunction";
+import { mockClient } from "aws-sdk-client-mock";
+import {
+  DynamoDBClient,
+  QueryCommand,
+  QueryCommandInput,
+  TransactionCanceledException,
+  TransactWriteItemsCommand,
+  TransactWriteItemsCommandInput,
+} from "@aws-sdk/client-dynamodb";
+
+describe("Unit tests for contract expiry", function () {
+  const ddbMock = mockClient(DynamoDBClient);
+
+  const scheduledEvent: ScheduledEvent = {
+    id: randomUUID(),
+    version: "0",
+    account: "nullAccount",
+    time: "2023-11-19T02:24:11.480Z",
+    region: "ap-southeast-2",
+    source: "aws.events",
+    resources: [""],
+    "detail-type": "Scheduled Event",
+    detail: {},
+  };
+
+  const draftContract = (propertyId: string) => ({
+    property_id: { S: propertyId },
+    contract_id: { S: randomUUID() },
+    contract_status: { S: "DRAFT" },
+    expires_on: { S: "2023-11-18T02:24:11.480Z" },
+  });
+
+  beforeEach(() => {
+    ddbMock.reset();
+  });
+
+  test("expires DRAFT contracts past their expiry date", async () => {
+    ddbMock.on(QueryCommand).callsFake((input: QueryCommandInput) => {
+      expect(input.IndexName).toEqual("ContractStatusIndex");
+      expect(input.KeyConditionExpression).toEqual("contract_status = :DRAFT");
+      expect(input.FilterExpression).toEqual("expires_on <= :now");
+      expect(input.ExpressionAttributeValues?.[":DRAFT"].S).toEqual("DRAFT");
+      expect(input.ExpressionAttributeValues?.[":now"].S).toEqual(
+        scheduledEvent.time
+      );
+      return {
+        $metadata: { httpStatusCode: 200 },
+        Items: [draftContract("usa/anytown/main-street/111")],
+      };
+    });
+    ddbMock
+      .on(TransactWriteItemsCommand)
+      .callsFake((input: TransactWriteItemsCommandInput) => {
+        const [contractUpdate, historyPut, outboxPut] =
+          input.TransactItems ?? [];
+        expect(contractUpdate.Update?.Key?.property_id.S).toEqual(
+          "usa/anytown/main-street/111"
+        );
+        expect(
+          contractUpdate.Update?.ExpressionAttributeValues?.[":t"].S
+        ).toEqual("EXPIRED");
+        expect(contractUpdate.Update?.ConditionExpression).toContain(
+          "contract_status = :DRAFT"
+        );
+        expect(historyPut.Put?.Item).toMatchObject({
+          property_id: { S: "usa/anytown/main-street/111" },
+          event: { S: "EXPIRE" },
+          from_status: { S: "DRAFT" },
+          to_status: { S: "EXPIRED" },
+          request_id: { S: scheduledEvent.id },
+        });
+        expect(outboxPut.Put?.Item).toMatchObject({
+          event_type: { S: "ContractStatusChanged" },
+          request_id: { S: scheduledEvent.id },
+          detail: {
+            M: expect.objectContaining({
+              contract_status: { S: "EXPIRED" },
+            }),
+          },
+        });
+        return { $metadata: { httpStatusCode: 200 } };
+      });
+
+    const context: Context = { awsRequestId: randomUUID() } as any;
+    const response = await lambdaHandler(scheduledEvent, context);
+    expect(response).toEqual({ expired: 1, skipped: 0 });
+  });
+
+  test("skips contracts that changed since they were queried", async () => {
+    ddbMock.on(QueryCommand).resolves({
+      $metadata: { httpStatusCode: 200 },
+      Items: [
+        draftContract("usa/anytown/main-street/111"),
+        draftContract("usa/anytown/main-street/222"),
+      ],
+    });
+    ddbMock
+      .on(TransactWriteItemsCommand)
+      .rejectsOnce(
+        new TransactionCanceledException({
+          message: "Transaction cancelled",
+          $metadata: {},
+          CancellationReasons: [
+            { Code: "ConditionalCheckFailed" },
+            { Code: "None" },
+          ],
+        })
+      )
+      .resolves({ $metadata: { httpStatusCode: 200 } });
+
+    const context: Context = { awsRequestId: randomUUID() } as any;
+    const response = await lambdaHandler(scheduledEvent, context);
+    expect(response).toEqual({ expired: 1, skipped: 1 });
+  });
+});
@@ -0,0 +1,125 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import {
+  contractImportAgencyOf,
+  contractImportReportKey,
+  parseContractImport,
+} from "../../src/contracts_service/contractImport";
+
+describe("Unit tests for contract import files", function () {
+  test("reads CSV rows into nested request bodies", () => {
+    const rows = parseContractImport(
+      "imports/agency.csv",
+      [
+        "property_id,seller_name,address.country,address.city,address.street,address.number,price",
+        'usa/anytown/main-street/111,"Doe, ""Johnny"" John",USA,Anytown,Main Street,111,350000.00',
+        "usa/anytown/main-street/222,Jane Doe,USA,Anytown,Main Street,22b,",
+      ].join("\r\n")
+    );
+
+    expect(rows).toEqual([
+      {
+        row: 2,
+        body: {
+          property_id: "usa/anytown/main-street/111",
+          seller_name: 'Doe, "Johnny" John',
+          address: {
+            country: "USA",
+            city: "Anytown",
+            street: "Main Street",
+            number: 111,
+          },
+          price: "350000.00",
+        },
+      },
+      {
+        row: 3,
+        // Left as a string, so validation reports it
+        body: {
+          property_id: "usa/anytown/main-street/222",
+          seller_name: "Jane Doe",
+          address: {
+            country: "USA",
+            city: "Anytown",
+            street: "Main Street",
+            number: "22b",
+          },
+        },
+      },
+    ]);
+  });
+
+  test("keeps line breaks inside quoted CSV cells and skips blank lines", () => {
+    const rows = parseContractImport(
+      "imports/agency.CSV",
+      'property_id,seller_name\n\nusa/anytown/main-street/111,"John\nDoe"\n'
+    );
+
+    expect(rows).toEqual([
+      {
+        row: 2,
+        body: {
+          property_id: "usa/anytown/main-street/111",
+          seller_name: "John\nDoe",
+        },
+      },
+    ]);
+  });
+
+  test("reports CSV rows with the wrong number of columns", () => {
+    const rows = parseContractImport(
+      "imports/agency.csv",
+      "property_id,seller_name\nusa/anytown/main-street/111"
+    );
+
+    expect(rows).toEqual([{ row: 2, error: "Row has 1 columns, expected 2" }]);
+  });
+
+  test("rejects CSV columns that are not contract fields", () => {
+    const rows = parseContractImport(
+      "imports/agency.csv",
+      "property_id,__proto__.polluted,address.constructor\np1,yes,no\n"
+    );
+
+    expect(rows).toEqual([
+      {
+        row: 2,
+        error: "Unknown columns __proto__.polluted, address.constructor",
+      },
+    ]);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  test("reads JSONL rows by line number", () => {
+    const rows = parseContractImport(
+      "imports/agency.jsonl",
+      '{"property_id": "usa/anytown/main-street/111"}\n\n{not json\n[1]\n'
+    );
+
+    expect(rows).toEqual([
+      { row: 1, body: { property_id: "usa/anytown/main-street/111" } },
+      { row: 3, error: "Row is not valid JSON" },
+      { row: 4, error: "Row is not a JSON object" },
+    ]);
+  });
+
+  test("rejects other file types", () => {
+    expect(() => parseContractImport("imports/agency.xlsx", "")).toThrow(
+      "Unsupported import file imports/agency.xlsx, expected .csv or .jsonl"
+    );
+  });
+
+  test("reads the agency from the folder of the file", () => {
+    expect(
+      contractImportAgencyOf("imports/agency-1/2023/listings.csv")
+    ).toEqual("agency-1");
+    expect(contractImportAgencyOf("imports/listings.csv")).toBeUndefined();
+    expect(contractImportAgencyOf("imports//listings.csv")).toBeUndefined();
+  });
+
+  test("writes the report next to the imports", () => {
+    expect(contractImportReportKey("imports/2023/agency.csv")).toEqual(
+      "reports/2023/agency.csv.report.json"
+    );
+  });
+});
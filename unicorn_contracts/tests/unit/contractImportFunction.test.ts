@@ -0,0 +1,166 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { Context, S3Event } from "aws-lambda";
+import { lambdaHandler } from "../../src/contracts_service/contractImportFunction";
+import { mockClient } from "aws-sdk-client-mock";
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  GetItemCommandInput,
+  TransactWriteItemsCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  GetObjectCommand,
+  GetObjectCommandOutput,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+
+describe("Unit tests for contract imports", function () {
+  const ddbMock = mockClient(DynamoDBClient);
+  const s3Mock = mockClient(S3Client);
+
+  const s3Event = (key: string): S3Event =>
+    ({
+      Records: [
+        {
+          userIdentity: { principalId: "AWS:AIDAEXAMPLE" },
+          s3: {
+            bucket: { name: "imports-bucket" },
+            object: { key },
+          },
+        },
+      ],
+    } as unknown as S3Event);
+
+  const uploaded = (content: string) =>
+    ({
+      Body: { transformToString: async () => content },
+    } as unknown as GetObjectCommandOutput);
+
+  beforeEach(() => {
+    ddbMock.reset();
+    s3Mock.reset();
+    s3Mock.on(PutObjectCommand).resolves({});
+    ddbMock
+      .on(TransactWriteItemsCommand)
+      .resolves({ $metadata: { httpStatusCode: 200 } });
+  });
+
+  test("creates valid rows, skips active contracts and reports every row", async () => {
+    s3Mock
+      .on(GetObjectCommand)
+      .resolves(
+        uploaded(
+          [
+            "property_id,seller_name,address.country,address.city,address.street,address.number",
+            "usa/anytown/main-street/111,John Doe,USA,Anytown,Main Street,111",
+            "usa/anytown/main-street/222,Jane Doe,USA,Anytown,Main Street,222",
+            "usa/anytown/main-street/333,,USA,Anytown,Main Street,333",
+          ].join("\n")
+        )
+      );
+    // Only main-street/222 already has a contract
+    ddbMock.on(GetItemCommand).callsFake((input: GetItemCommandInput) =>
+      input.Key?.property_id.S === "usa/anytown/main-street/222"
+        ? {
+            $metadata: { httpStatusCode: 200 },
+            Item: {
+              property_id: { S: "usa/anytown/main-street/222" },
+              agency_id: { S: "agency-1" },
+              contract_id: { S: "617dda8c-e79b-406a-bc5b-3a4712f5e4d7" },
+              contract_status: { S: "APPROVED" },
+            },
+          }
+        : { $metadata: { httpStatusCode: 200 } }
+    );
+
+    const [report] = await lambdaHandler(
+      s3Event("imports/agency-1/new+listings.csv"),
+      {} as Context
+    );
+
+    expect(report.import_key).toEqual("imports/agency-1/new listings.csv");
+    expect(report.totals).toEqual({
+      CREATED: 1,
+      SKIPPED: 1,
+      INVALID: 1,
+      FAILED: 0,
+    });
+    expect(report.rows).toEqual([
+      {
+        row: 2,
+        property_id: "usa/anytown/main-street/111",
+        result: "CREATED",
+        contract_id: expect.any(String),
+      },
+      {
+        row: 3,
+        property_id: "usa/anytown/main-street/222",
+        result: "SKIPPED",
+        reason: "Property already has an active contract",
+      },
+      {
+        row: 4,
+        property_id: "usa/anytown/main-street/333",
+        result: "INVALID",
+        reason: "Row failed validation",
+        errors: [{ field: "seller_name", message: "is required" }],
+      },
+    ]);
+
+    const [contractPut, historyPut] =
+      ddbMock.commandCalls(TransactWriteItemsCommand)[0].args[0].input
+        .TransactItems ?? [];
+    expect(contractPut.Put?.Item?.property_id).toEqual({
+      S: "usa/anytown/main-street/111",
+    });
+    expect(contractPut.Put?.Item?.agency_id).toEqual({ S: "agency-1" });
+    expect(historyPut.Put?.Item).toMatchObject({
+      request_id: { S: "imports/agency-1/new listings.csv#2" },
+      requested_by: { S: "AWS:AIDAEXAMPLE" },
+    });
+
+    const reportPut = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+    expect(reportPut.Bucket).toEqual("imports-bucket");
+    expect(reportPut.Key).toEqual(
+      "reports/agency-1/new listings.csv.report.json"
+    );
+    expect(JSON.parse(reportPut.Body as string)).toEqual(report);
+  });
+
+  test("reports a row that could not be written and carries on", async () => {
+    s3Mock
+      .on(GetObjectCommand)
+      .resolves(
+        uploaded(
+          [
+            '{"property_id": "usa/anytown/main-street/111", "seller_name": "John Doe", "address": {"country": "USA", "city": "Anytown", "street": "Main Street", "number": 111}}',
+            '{"property_id": "usa/anytown/main-street/222", "seller_name": "Jane Doe", "address": {"country": "USA", "city": "Anytown", "street": "Main Street", "number": 222}}',
+          ].join("\n")
+        )
+      );
+    ddbMock.on(GetItemCommand).resolves({ $metadata: { httpStatusCode: 200 } });
+    ddbMock
+      .on(TransactWriteItemsCommand)
+      .rejectsOnce(new Error("Throughput exceeded"))
+      .resolves({ $metadata: { httpStatusCode: 200 } });
+
+    const [report] = await lambdaHandler(
+      s3Event("imports/agency-1/listings.jsonl"),
+      {} as Context
+    );
+
+    expect(report.rows.map((row) => row.result)).toEqual(["FAILED", "CREATED"]);
+    expect(report.rows[0].reason).toEqual("Throughput exceeded");
+  });
+
+  test("does not import a file outside an agency folder", async () => {
+    await expect(
+      lambdaHandler(s3Event("imports/listings.csv"), {} as Context)
+    ).rejects.toThrow(
+      "Import file imports/listings.csv must be uploaded to imports/<agency_id>/"
+    );
+    expect(s3Mock.commandCalls(GetObjectCommand)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,137 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { Context, DynamoDBRecord, DynamoDBStreamEvent } from "aws-lambda";
+import { randomUUID } from "crypto";
+import { marshall } from "@aws-sdk/util-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import { lambdaHandler } from "../../src/contracts_service/contractOutboxRelayFunction";
+import { ContractOutboxDBType } from "../../src/contracts_service/contractOutbox";
+import { ContractStatusEnum } from "../../src/contracts_service/Contract";
+
+describe("Unit tests for the contract outbox relay", function () {
+  const eventsMock = mockClient(EventBridgeClient);
+  const context: Context = { awsRequestId: randomUUID() } as any;
+
+  const outboxEntry = (
+    contractStatus: ContractStatusEnum
+  ): ContractOutboxDBType => ({
+    event_id: randomUUID(),
+    event_type: "ContractStatusChanged",
+    event_version: 1,
+    occurred_on: "2023-11-19T02:24:11.480Z",
+    request_id: randomUUID(),
+    property_id: "usa/anytown/main-street/111",
+    sequence: "0000000003#ContractStatusChanged",
+    detail: {
+      property_id: "usa/anytown/main-street/111",
+      contract_id: randomUUID(),
+      contract_status: contractStatus,
+      contract_last_modified_on: "2023-11-19T02:24:11.480Z",
+      price: "350000.00",
+      currency: "USD",
+      version: 3,
+    },
+    expiration: 1701000000,
+  });
+
+  const streamRecord = (
+    entry: ContractOutboxDBType,
+    sequenceNumber: string,
+    eventName: DynamoDBRecord["eventName"] = "INSERT"
+  ): DynamoDBRecord =>
+    ({
+      eventName,
+      dynamodb: {
+        SequenceNumber: sequenceNumber,
+        NewImage: marshall(entry),
+      },
+    } as unknown as DynamoDBRecord);
+
+  beforeEach(() => {
+    eventsMock.reset();
+    eventsMock.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+  });
+
+  test("publishes the flat detail with the envelope under metadata", async () => {
+    const entry = outboxEntry(ContractStatusEnum.CANCELLED);
+    const event: DynamoDBStreamEvent = { Records: [streamRecord(entry, "1")] };
+
+    const response = await lambdaHandler(event, context);
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    const [published] =
+      eventsMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries ?? [];
+    expect(published.DetailType).toEqual("ContractStatusChanged");
+    expect(published.Time).toEqual(new Date(entry.occurred_on));
+    expect(JSON.parse(published.Detail as string)).toEqual({
+      ...entry.detail,
+      metadata: {
+        event_id: entry.event_id,
+        event_type: "ContractStatusChanged",
+        event_version: 1,
+        occurred_on: entry.occurred_on,
+        request_id: entry.request_id,
+      },
+    });
+  });
+
+  test("publishes entries in the order they were written", async () => {
+    const entries = [
+      outboxEntry(ContractStatusEnum.DRAFT),
+      outboxEntry(ContractStatusEnum.PENDING_SIGNATURES),
+      outboxEntry(ContractStatusEnum.APPROVED),
+    ];
+    const event: DynamoDBStreamEvent = {
+      Records: entries.map((entry, i) => streamRecord(entry, String(i))),
+    };
+
+    await lambdaHandler(event, context);
+
+    expect(
+      eventsMock
+        .commandCalls(PutEventsCommand)
+        .map(
+          (call) =>
+            JSON.parse(call.args[0].input.Entries?.[0].Detail as string)
+              .contract_status
+        )
+    ).toEqual(["DRAFT", "PENDING_SIGNATURES", "APPROVED"]);
+  });
+
+  test("ignores records of removed outbox items", async () => {
+    const event: DynamoDBStreamEvent = {
+      Records: [
+        streamRecord(outboxEntry(ContractStatusEnum.DRAFT), "1", "REMOVE"),
+      ],
+    };
+
+    const response = await lambdaHandler(event, context);
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    expect(eventsMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  test("stops at the first entry that fails and retries from it", async () => {
+    eventsMock
+      .on(PutEventsCommand)
+      .resolvesOnce({ FailedEntryCount: 0 })
+      .resolvesOnce({
+        FailedEntryCount: 1,
+        Entries: [{ ErrorCode: "InternalFailure" }],
+      });
+    const event: DynamoDBStreamEvent = {
+      Records: ["1", "2", "3"].map((sequenceNumber) =>
+        streamRecord(outboxEntry(ContractStatusEnum.EXPIRED), sequenceNumber)
+      ),
+    };
+
+    const response = await lambdaHandler(event, context);
+
+    expect(response).toEqual({ batchItemFailures: [{ itemIdentifier: "2" }] });
+    expect(eventsMock.commandCalls(PutEventsCommand)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,459 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { APIGatewayProxyEvent, Context } from "aws-lambda";
+import { lambdaHandler } from "../../src/contracts_service/contractQueryFunction";
+import { mockClient } from "aws-sdk-client-mock";
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  GetItemCommandInput,
+  QueryCommand,
+  QueryCommandInput,
+} from "@aws-sdk/client-dynamodb";
+
+describe("Unit tests for contract queries", function () {
+  const ddbMock = mockClient(DynamoDBClient);
+
+  // The agency user pool authorizer passes the claims of the caller's ID token
+  const callerContext = (claims: Record<string, string>) =>
+    ({
+      authorizer: { claims },
+    } as unknown as APIGatewayProxyEvent["requestContext"]);
+
+  const apiEvent = (
+    resource: string,
+    overrides: Partial<APIGatewayProxyEvent>
+  ): APIGatewayProxyEvent =>
+    ({
+      resource,
+      path: resource,
+      httpMethod: "GET",
+      headers: {},
+      requestContext: callerContext({ "custom:agency_id": "agency-1" }),
+      pathParameters: null,
+      queryStringParameters: null,
+      body: null,
+      ...overrides,
+    } as unknown as APIGatewayProxyEvent);
+
+  const contractItem = (propertyId: string) => ({
+    property_id: { S: propertyId },
+    agency_id: { S: "agency-1" },
+    contract_id: { S: "9183453b-d284-4466-a2d9-f00b1d569ad7" },
+    contract_status: { S: "DRAFT" },
+  });
+
+  beforeEach(() => {
+    ddbMock.reset();
+  });
+
+  test("returns the contract of a URL-encoded property ID", async () => {
+    ddbMock.on(GetItemCommand).callsFake((input: GetItemCommandInput) => {
+      expect(input.Key?.property_id.S).toEqual("usa/anytown/main-street/111");
+      return {
+        $metadata: { httpStatusCode: 200 },
+        Item: contractItem("usa/anytown/main-street/111"),
+      };
+    });
+
+    const response = await lambdaHandler(
+      apiEvent("/contracts/{property_id}", {
+        pathParameters: { property_id: "usa%2Fanytown%2Fmain-street%2F111" },
+      }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      property_id: "usa/anytown/main-street/111",
+      contract_status: "DRAFT",
+    });
+    // Contracts written before versions were introduced are at version 0
+    expect(response.headers).toEqual({ ETag: '"0"' });
+  });
+
+  test("returns 404 when the property has no contract", async () => {
+    ddbMock.on(GetItemCommand).resolves({ $metadata: { httpStatusCode: 200 } });
+
+    const response = await lambdaHandler(
+      apiEvent("/contracts/{property_id}", {
+        pathParameters: { property_id: "usa%2Fanytown%2Fmain-street%2F999" },
+      }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(404);
+  });
+
+  test("returns 404 when the contract belongs to another agency", async () => {
+    ddbMock.on(GetItemCommand).resolves({
+      $metadata: { httpStatusCode: 200 },
+      Item: contractItem("usa/anytown/main-street/111"),
+    });
+
+    const response = await lambdaHandler(
+      apiEvent("/contracts/{property_id}", {
+        requestContext: callerContext({ "custom:agency_id": "agency-2" }),
+        pathParameters: { property_id: "usa%2Fanytown%2Fmain-street%2F111" },
+      }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(404);
+  });
+
+  test("rejects a caller who is not assigned to an agency, whatever header they send", async () => {
+    const response = await lambdaHandler(
+      apiEvent("/contracts", {
+        headers: { "X-Agency-Id": "agency-1" },
+        requestContext: callerContext({}),
+        queryStringParameters: { status: "DRAFT" },
+      }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(403);
+    expect(JSON.parse(response.body).message).toEqual(
+      "The caller is not assigned to an agency"
+    );
+    expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(0);
+  });
+
+  test("lists contracts by status and round-trips the next_token", async () => {
+    const lastEvaluatedKey = {
+      property_id: { S: "usa/anytown/main-street/111" },
+      contract_status: { S: "DRAFT" },
+      contract_created: { S: "2023-11-18T02:24:11.480Z" },
+    };
+    ddbMock
+      .on(QueryCommand)
+      .callsFakeOnce((input: QueryCommandInput) => {
+        expect(input.IndexName).toEqual("ContractStatusIndex");
+        expect(input.ExpressionAttributeValues?.[":s"].S).toEqual("DRAFT");
+        expect(input.FilterExpression).toEqual("agency_id = :agency_id");
+        expect(input.ExpressionAttributeValues?.[":agency_id"].S).toEqual(
+          "agency-1"
+        );
+        expect(input.Limit).toEqual(1);
+        expect(input.ExclusiveStartKey).toBeUndefined();
+        return {
+          $metadata: { httpStatusCode: 200 },
+          Items: [contractItem("usa/anytown/main-street/111")],
+          LastEvaluatedKey: lastEvaluatedKey,
+        };
+      })
+      .callsFakeOnce((input: QueryCommandInput) => {
+        expect(input.ExclusiveStartKey).toEqual(lastEvaluatedKey);
+        return {
+          $metadata: { httpStatusCode: 200 },
+          Items: [contractItem("usa/anytown/main-street/222")],
+        };
+      });
+
+    const firstPage = await lambdaHandler(
+      apiEvent("/contracts", {
+        queryStringParameters: { status: "DRAFT", limit: "1" },
+      }),
+      {} as Context
+    );
+    const firstBody = JSON.parse(firstPage.body);
+    expect(firstPage.statusCode).toEqual(200);
+    expect(firstBody.contracts).toHaveLength(1);
+    expect(firstBody.next_token).toBeDefined();
+
+    const secondPage = await lambdaHandler(
+      apiEvent("/contracts", {
+        queryStringParameters: {
+          status: "DRAFT",
+          limit: "1",
+          next_token: firstBody.next_token,
+        },
+      }),
+      {} as Context
+    );
+    const secondBody = JSON.parse(secondPage.body);
+    expect(secondPage.statusCode).toEqual(200);
+    expect(secondBody.contracts[0].property_id).toEqual(
+      "usa/anytown/main-street/222"
+    );
+    expect(secondBody.next_token).toBeUndefined();
+  });
+
+  test.each([
+    ["not JSON", "bm90IGpzb24"],
+    [
+      "another index's key",
+      Buffer.from(
+        JSON.stringify({
+          property_id: { S: "usa/anytown/main-street/111" },
+          history_id: { S: "2023-11-18T02:24:11.480Z" },
+        })
+      ).toString("base64url"),
+    ],
+    [
+      "a key that is not a string",
+      Buffer.from(
+        JSON.stringify({
+          property_id: { S: "usa/anytown/main-street/111" },
+          contract_status: { N: "1" },
+          contract_created: { S: "2023-11-18T02:24:11.480Z" },
+        })
+      ).toString("base64url"),
+    ],
+  ])("rejects a next_token that is %s", async (_, nextToken) => {
+    const response = await lambdaHandler(
+      apiEvent("/contracts", {
+        queryStringParameters: { status: "DRAFT", next_token: nextToken },
+      }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(400);
+    expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(0);
+  });
+
+  test("searches contracts by seller name prefix and counts them by status", async () => {
+    const sellerContract = (propertyId: string, status: string) => ({
+      ...contractItem(propertyId),
+      contract_status: { S: status },
+      seller_name: { S: "John Doe" },
+    });
+    ddbMock
+      .on(QueryCommand)
+      .callsFakeOnce((input: QueryCommandInput) => {
+        expect(input.IndexName).toEqual("ContractSellerIndex");
+        expect(input.KeyConditionExpression).toEqual(
+          "seller_initial = :i AND begins_with(seller_search_name, :p)"
+        );
+        expect(input.ExpressionAttributeValues).toEqual({
+          ":i": { S: "j" },
+          ":p": { S: "john d" },
+          ":agency_id": { S: "agency-1" },
+        });
+        expect(input.Limit).toEqual(2);
+        return {
+          $metadata: { httpStatusCode: 200 },
+          Items: [
+            sellerContract("usa/anytown/main-street/111", "DRAFT"),
+            sellerContract("usa/anytown/main-street/222", "APPROVED"),
+          ],
+          LastEvaluatedKey: contractItem("usa/anytown/main-street/222"),
+        };
+      })
+      // The totals read every matching contract, over as many pages as it takes
+      .callsFakeOnce((input: QueryCommandInput) => {
+        expect(input.ProjectionExpression).toEqual("contract_status");
+        expect(input.Limit).toBeUndefined();
+        return {
+          $metadata: { httpStatusCode: 200 },
+          Items: [{ contract_status: { S: "DRAFT" } }],
+          LastEvaluatedKey: contractItem("usa/anytown/main-street/111"),
+        };
+      })
+      .callsFakeOnce(() => ({
+        $metadata: { httpStatusCode: 200 },
+        Items: [
+          { contract_status: { S: "APPROVED" } },
+          { contract_status: { S: "APPROVED" } },
+        ],
+      }));
+
+    const response = await lambdaHandler(
+      apiEvent("/contracts", {
+        queryStringParameters: { seller_name: " JOHN  D", limit: "2" },
+      }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(200);
+    const body = JSON.parse(response.body);
+    expect(body.contracts).toHaveLength(2);
+    expect(body.next_token).toBeDefined();
+    expect(body.totals).toEqual({ DRAFT: 1, APPROVED: 2 });
+  });
+
+  test("does not count the contracts of a seller again for later pages", async () => {
+    ddbMock.on(QueryCommand).resolves({
+      $metadata: { httpStatusCode: 200 },
+      Items: [contractItem("usa/anytown/main-street/333")],
+    });
+
+    const response = await lambdaHandler(
+      apiEvent("/contracts", {
+        queryStringParameters: {
+          seller_name: "john",
+          next_token: Buffer.from(
+            JSON.stringify({
+              property_id: { S: "usa/anytown/main-street/222" },
+              seller_initial: { S: "j" },
+              seller_search_name: { S: "john doe" },
+            })
+          ).toString("base64url"),
+        },
+      }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(200);
+    expect(JSON.parse(response.body).totals).toBeUndefined();
+    expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(1);
+  });
+
+  test("rejects a seller search combined with a status", async () => {
+    const response = await lambdaHandler(
+      apiEvent("/contracts", {
+        queryStringParameters: { seller_name: "john", status: "DRAFT" },
+      }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(400);
+    expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(0);
+  });
+
+  test("rejects an empty seller name", async () => {
+    const response = await lambdaHandler(
+      apiEvent("/contracts", { queryStringParameters: { seller_name: "  " } }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(400);
+    expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(0);
+  });
+
+  test("returns the history of a property oldest first", async () => {
+    ddbMock.on(GetItemCommand).resolves({
+      $metadata: { httpStatusCode: 200 },
+      Item: { agency_id: { S: "agency-1" } },
+    });
+    ddbMock.on(QueryCommand).callsFake((input: QueryCommandInput) => {
+      expect(input.KeyConditionExpression).toEqual("property_id = :p");
+      expect(input.ExpressionAttributeValues?.[":p"].S).toEqual(
+        "usa/anytown/main-street/111"
+      );
+      expect(input.ScanIndexForward).toBe(true);
+      return {
+        $metadata: { httpStatusCode: 200 },
+        Items: [
+          {
+            property_id: { S: "usa/anytown/main-street/111" },
+            history_id: { S: "2023-11-19T02:24:11.480Z#1" },
+            event: { S: "CREATE" },
+            to_status: { S: "DRAFT" },
+          },
+          {
+            property_id: { S: "usa/anytown/main-street/111" },
+            history_id: { S: "2023-11-20T02:24:11.480Z#2" },
+            event: { S: "CANCEL" },
+            from_status: { S: "DRAFT" },
+            to_status: { S: "CANCELLED" },
+          },
+        ],
+      };
+    });
+
+    const response = await lambdaHandler(
+      apiEvent("/contracts/{property_id}/history", {
+        pathParameters: { property_id: "usa%2Fanytown%2Fmain-street%2F111" },
+      }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(200);
+    const body = JSON.parse(response.body);
+    expect(body.history.map((h: { event: string }) => h.event)).toEqual([
+      "CREATE",
+      "CANCEL",
+    ]);
+    expect(body.next_token).toBeUndefined();
+  });
+
+  test("does not return the history of a property managed by another agency", async () => {
+    ddbMock.on(GetItemCommand).resolves({
+      $metadata: { httpStatusCode: 200 },
+      Item: { agency_id: { S: "agency-2" } },
+    });
+
+    const response = await lambdaHandler(
+      apiEvent("/contracts/{property_id}/history", {
+        pathParameters: { property_id: "usa%2Fanytown%2Fmain-street%2F111" },
+      }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(404);
+    expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(0);
+  });
+
+  test("does not return the history of a property without a contract", async () => {
+    ddbMock.on(GetItemCommand).resolves({ $metadata: { httpStatusCode: 200 } });
+
+    const response = await lambdaHandler(
+      apiEvent("/contracts/{property_id}/history", {
+        pathParameters: { property_id: "usa%2Fanytown%2Fmain-street%2F111" },
+      }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(404);
+    expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(0);
+  });
+
+  test("returns the outcome of a request of the caller's agency", async () => {
+    ddbMock.on(GetItemCommand).callsFake((input: GetItemCommandInput) => {
+      expect(input.Key?.request_id.S).toEqual("request-1");
+      return {
+        $metadata: { httpStatusCode: 200 },
+        Item: {
+          request_id: { S: "request-1" },
+          agency_id: { S: "agency-1" },
+          request_status: { S: "REJECTED" },
+          failure_reason: { S: "ContractVersionConflict" },
+        },
+      };
+    });
+
+    const response = await lambdaHandler(
+      apiEvent("/contracts/requests/{request_id}", {
+        pathParameters: { request_id: "request-1" },
+      }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      request_status: "REJECTED",
+      failure_reason: "ContractVersionConflict",
+    });
+  });
+
+  test("returns 404 for the request of another agency", async () => {
+    ddbMock.on(GetItemCommand).resolves({
+      $metadata: { httpStatusCode: 200 },
+      Item: {
+        request_id: { S: "request-1" },
+        agency_id: { S: "agency-2" },
+        request_status: { S: "ACCEPTED" },
+      },
+    });
+
+    const response = await lambdaHandler(
+      apiEvent("/contracts/requests/{request_id}", {
+        pathParameters: { request_id: "request-1" },
+      }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(404);
+  });
+
+  test("rejects an unknown status", async () => {
+    const response = await lambdaHandler(
+      apiEvent("/contracts", { queryStringParameters: { status: "SIGNED" } }),
+      {} as Context
+    );
+
+    expect(response.statusCode).toEqual(400);
+    expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,235 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { Context } from "aws-lambda";
+import { randomUUID } from "crypto";
+import { marshall } from "@aws-sdk/util-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import {
+  DynamoDBClient,
+  QueryCommand,
+  ScanCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import { lambdaHandler } from "../../src/contracts_service/contractReplayFunction";
+import {
+  ContractDBType,
+  ContractStatusEnum,
+} from "../../src/contracts_service/Contract";
+
+describe("Unit tests for contract replays", function () {
+  const ddbMock = mockClient(DynamoDBClient);
+  const eventsMock = mockClient(EventBridgeClient);
+
+  const context = (remainingTimeInMillis = 900000): Context =>
+    ({
+      awsRequestId: randomUUID(),
+      getRemainingTimeInMillis: () => remainingTimeInMillis,
+    } as unknown as Context);
+
+  const contract = (n: number): ContractDBType => ({
+    property_id: `usa/anytown/main-street/${n}`,
+    agency_id: "agency-1",
+    contract_id: randomUUID(),
+    contract_status: ContractStatusEnum.APPROVED,
+    contract_last_modified_on: "2023-11-19T02:24:11.480Z",
+    version: 3,
+  });
+
+  const publishedDetails = () =>
+    eventsMock
+      .commandCalls(PutEventsCommand)
+      .flatMap((call) => call.args[0].input.Entries ?? [])
+      .map((entry) => JSON.parse(entry.Detail as string));
+
+  beforeEach(() => {
+    ddbMock.reset();
+    eventsMock.reset();
+    eventsMock.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+  });
+
+  test("republishes every contract marked as a replay", async () => {
+    ddbMock
+      .on(ScanCommand)
+      .resolvesOnce({
+        Items: [contract(1), contract(2)].map((item) => marshall(item)),
+        LastEvaluatedKey: { property_id: { S: "usa/anytown/main-street/2" } },
+      })
+      .resolvesOnce({ Items: [marshall(contract(3))] });
+    const ctx = context();
+
+    const result = await lambdaHandler({ events_per_second: 1000 }, ctx);
+
+    expect(result).toEqual({ dry_run: false, replayed: 3 });
+    expect(ddbMock.commandCalls(ScanCommand)[0].args[0].input).toMatchObject({
+      FilterExpression: undefined,
+      ExpressionAttributeValues: undefined,
+    });
+    expect(
+      ddbMock.commandCalls(ScanCommand)[1].args[0].input.ExclusiveStartKey
+    ).toEqual({ property_id: { S: "usa/anytown/main-street/2" } });
+    const details = publishedDetails();
+    expect(details.map((detail) => detail.property_id)).toEqual([
+      "usa/anytown/main-street/1",
+      "usa/anytown/main-street/2",
+      "usa/anytown/main-street/3",
+    ]);
+    expect(details[0]).toMatchObject({
+      agency_id: "agency-1",
+      contract_status: "APPROVED",
+      version: 3,
+      metadata: {
+        event_id: expect.any(String),
+        event_type: "ContractStatusChanged",
+        event_version: 1,
+        occurred_on: "2023-11-19T02:24:11.480Z",
+        request_id: ctx.awsRequestId,
+        replay: true,
+      },
+    });
+  });
+
+  test("filters contracts by status and modification date", async () => {
+    ddbMock.on(ScanCommand).resolves({ Items: [] });
+
+    await lambdaHandler(
+      {
+        contract_status: ContractStatusEnum.APPROVED,
+        modified_from: "2023-11-01",
+        modified_to: "2023-11-30T23:59:59Z",
+      },
+      context()
+    );
+
+    expect(ddbMock.commandCalls(ScanCommand)[0].args[0].input).toMatchObject({
+      FilterExpression:
+        "contract_status = :status AND contract_last_modified_on >= :from AND contract_last_modified_on <= :to",
+      ExpressionAttributeValues: {
+        ":status": { S: "APPROVED" },
+        ":from": { S: "2023-11-01T00:00:00.000Z" },
+        ":to": { S: "2023-11-30T23:59:59.000Z" },
+      },
+    });
+  });
+
+  test("reads the contract of a single property by key", async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [marshall(contract(1))] });
+
+    const result = await lambdaHandler(
+      { property_id: "usa/anytown/main-street/1" },
+      context()
+    );
+
+    expect(result.replayed).toEqual(1);
+    expect(ddbMock.commandCalls(ScanCommand)).toHaveLength(0);
+    expect(ddbMock.commandCalls(QueryCommand)[0].args[0].input).toMatchObject({
+      KeyConditionExpression: "property_id = :property_id",
+      ExpressionAttributeValues: {
+        ":property_id": { S: "usa/anytown/main-street/1" },
+      },
+    });
+  });
+
+  test("lists the events of a dry run without publishing them", async () => {
+    ddbMock.on(ScanCommand).resolves({ Items: [marshall(contract(1))] });
+
+    const result = await lambdaHandler({ dry_run: true }, context());
+
+    expect(result.dry_run).toEqual(true);
+    expect(result.replayed).toEqual(1);
+    expect(result.events?.[0]).toMatchObject({
+      property_id: "usa/anytown/main-street/1",
+      metadata: { replay: true },
+    });
+    expect(eventsMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  test("returns only the first events of a large dry run", async () => {
+    ddbMock.on(ScanCommand).resolves({
+      Items: Array.from({ length: 105 }, (_, n) => marshall(contract(n))),
+    });
+
+    const result = await lambdaHandler({ dry_run: true }, context());
+
+    expect(result.replayed).toEqual(105);
+    expect(result.events).toHaveLength(100);
+    expect(result.events?.[99].property_id).toEqual(
+      "usa/anytown/main-street/99"
+    );
+  });
+
+  test("stops a dry run before the function times out", async () => {
+    ddbMock.on(ScanCommand).resolves({
+      Items: [1, 2].map((n) => marshall(contract(n))),
+    });
+    let remainingTimeInMillis = 60000;
+    const ctx = {
+      awsRequestId: randomUUID(),
+      getRemainingTimeInMillis: () => (remainingTimeInMillis -= 20000),
+    } as unknown as Context;
+
+    const result = await lambdaHandler(
+      { dry_run: true, events_per_second: 1 },
+      ctx
+    );
+
+    expect(result).toMatchObject({
+      replayed: 1,
+      resume_after: "usa/anytown/main-street/1",
+    });
+    expect(result.events).toHaveLength(1);
+  });
+
+  test("publishes in batches no faster than the requested rate", async () => {
+    ddbMock.on(ScanCommand).resolves({
+      Items: [1, 2, 3, 4].map((n) => marshall(contract(n))),
+    });
+
+    const startedOn = Date.now();
+    await lambdaHandler({ events_per_second: 20 }, context());
+
+    expect(
+      eventsMock
+        .commandCalls(PutEventsCommand)
+        .map((call) => call.args[0].input.Entries?.length)
+    ).toEqual([4]);
+    expect(Date.now() - startedOn).toBeGreaterThanOrEqual(190);
+  });
+
+  test("stops before the function times out and returns where to resume", async () => {
+    ddbMock.on(ScanCommand).resolves({
+      Items: [1, 2].map((n) => marshall(contract(n))),
+    });
+    let remainingTimeInMillis = 60000;
+    const ctx = {
+      awsRequestId: randomUUID(),
+      getRemainingTimeInMillis: () => (remainingTimeInMillis -= 20000),
+    } as unknown as Context;
+
+    const result = await lambdaHandler(
+      { events_per_second: 1, start_after: "usa/anytown/main-street/0" },
+      ctx
+    );
+
+    expect(result).toEqual({
+      dry_run: false,
+      replayed: 1,
+      resume_after: "usa/anytown/main-street/1",
+    });
+    expect(
+      ddbMock.commandCalls(ScanCommand)[0].args[0].input.ExclusiveStartKey
+    ).toEqual({ property_id: { S: "usa/anytown/main-street/0" } });
+  });
+
+  test("rejects an unknown status", async () => {
+    await expect(
+      lambdaHandler(
+        { contract_status: "SOLD" as ContractStatusEnum },
+        context()
+      )
+    ).rejects.toThrow("Unknown contract_status SOLD");
+    expect(ddbMock.commandCalls(ScanCommand)).toHaveLength(0);
+  });
+});
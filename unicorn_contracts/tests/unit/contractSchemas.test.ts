@@ -0,0 +1,101 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { readFileSync } from "fs";
+import { join } from "path";
+import { load } from "js-yaml";
+import {
+  AmendContractModel,
+  CancelContractModel,
+  CreateContractModel,
+  SignContractModel,
+  UpdateContractModel,
+  validateContractRequest,
+} from "../../src/contracts_service/contractSchemas";
+
+describe("Unit tests for contract request validation", function () {
+  const api = load(readFileSync(join(__dirname, "../../api.yaml"), "utf8")) as {
+    components: { schemas: Record<string, unknown> };
+  };
+
+  test.each([
+    ["CreateContractModel", CreateContractModel],
+    ["UpdateContractModel", UpdateContractModel],
+    ["AmendContractModel", AmendContractModel],
+    ["CancelContractModel", CancelContractModel],
+    ["SignContractModel", SignContractModel],
+  ])("%s matches api.yaml", (name, model) => {
+    expect(model).toEqual(api.components.schemas[name]);
+  });
+
+  test("accepts a valid create request", () => {
+    expect(
+      validateContractRequest("POST /contracts", {
+        property_id: "usa/anytown/main-street/111",
+        seller_name: "John Doe",
+        address: {
+          country: "USA",
+          city: "Anytown",
+          street: "Main Street",
+          number: 111,
+        },
+      })
+    ).toEqual([]);
+  });
+
+  test("reports every invalid field of a create request", () => {
+    expect(
+      validateContractRequest("POST /contracts", {
+        property_id: 111,
+        address: { country: "USA", city: "Anytown", number: "111" },
+      })
+    ).toEqual(
+      expect.arrayContaining([
+        { field: "seller_name", message: "is required" },
+        { field: "property_id", message: "must be string" },
+        { field: "address.street", message: "is required" },
+        { field: "address.number", message: "must be integer" },
+      ])
+    );
+  });
+
+  test("requires a cancellation reason", () => {
+    expect(
+      validateContractRequest("DELETE /contracts", {
+        property_id: "usa/anytown/main-street/111",
+      })
+    ).toEqual([{ field: "cancellation_reason", message: "is required" }]);
+  });
+
+  test("reports a body that is not an object", () => {
+    expect(
+      validateContractRequest("PUT /contracts", "usa/anytown/main-street/111")
+    ).toEqual([{ field: "(body)", message: "must be object" }]);
+  });
+
+  test("only accepts signatures from the seller or the buyer", () => {
+    expect(
+      validateContractRequest("POST /contracts/signatures", {
+        property_id: "usa/anytown/main-street/111",
+        party: "AGENT",
+        signature_reference: "",
+      })
+    ).toEqual(
+      expect.arrayContaining([
+        {
+          field: "party",
+          message: "must be equal to one of the allowed values",
+        },
+        {
+          field: "signature_reference",
+          message: "must NOT have fewer than 1 characters",
+        },
+      ])
+    );
+  });
+
+  test("has no model for unsupported routes", () => {
+    expect(
+      validateContractRequest("PATCH /contracts/signatures", {})
+    ).toBeUndefined();
+  });
+});
@@ -4,10 +4,21 @@ import { Context } from "aws-lambda";
 import type { LambdaInterface } from "@aws-lambda-powertools/commons";
 import { MetricUnits } from "@aws-lambda-powertools/metrics";
 import { logger, metrics, tracer } from "./powertools";
+import {
+  ModerationFinding,
+  evaluateContent,
+  loadModerationPolicy,
+} from "./moderationPolicy";
+
+// Loaded once, so a function with an invalid policy fails to start instead of answering every
+// validation with an error
+const MODERATION_POLICY = loadModerationPolicy(process.env.MODERATION_POLICY);
 
 export type StepFunctionsResponse = {
   statusCode: number;
   validation_result?: string;
+  policy_version?: string;
+  findings?: ModerationFinding[];
   error?: string;
 };
 
@@ -29,23 +40,35 @@ class ContentIntegrityValidatorFunction implements LambdaInterface {
     try {
       // Get the task token and contract id from the input
       let input = event;
-      // Check the content sentiment.
-      if (input.contentSentiment.Sentiment === "POSITIVE") {
-        // Check the imageModerations
-        const imageModerations = input.imageModerations;
-        for (let i = 0; i < imageModerations.length; i++) {
-          const moderation = imageModerations[i];
-          if (moderation.ModerationLabels?.length > 0) {
-            logger.warn(`Found offensive image at index ${i}`);
-            return { statusCode: 200, validation_result: "FAIL" };
-          }
-        }
-        logger.warn(`No offensive images found.`);
-        return { statusCode: 200, validation_result: "PASS" };
+      const decision = evaluateContent(
+        MODERATION_POLICY,
+        input.contentSentiment,
+        input.imageModerations
+      );
+      if (decision.validation_result === "FAIL") {
+        logger.warn(
+          `Content failed moderation policy version ${decision.policy_version}`,
+          { findings: decision.findings }
+        );
+        metrics.addMetric("ContentModerationFailed", MetricUnits.Count, 1);
+      } else if (decision.validation_result === "NEEDS_REVIEW") {
+        logger.info(
+          `Content needs review under moderation policy version ${decision.policy_version}`,
+          { findings: decision.findings }
+        );
+        metrics.addMetric("ContentModerationReviewed", MetricUnits.Count, 1);
       } else {
-        logger.warn(`Found offensive description`);
-        return { statusCode: 200, validation_result: "FAIL" };
+        logger.info(
+          `Content passed moderation policy version ${decision.policy_version}`
+        );
+        metrics.addMetric("ContentModerationPassed", MetricUnits.Count, 1);
       }
+      return {
+        statusCode: 200,
+        validation_result: decision.validation_result,
+        policy_version: decision.policy_version,
+        findings: decision.findings,
+      };
     } catch (error: any) {
       tracer.addErrorAsMetadata(error as Error);
       logger.error(
@@ -0,0 +1,46 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { ModerationFinding } from "./moderationPolicy";
+
+export enum ContentReviewStatusEnum {
+  PENDING = "PENDING",
+  APPROVED = "APPROVED",
+  DECLINED = "DECLINED",
+  // The workflow stopped waiting before the content was reviewed
+  EXPIRED = "EXPIRED",
+}
+
+/**
+ * Listing content the moderation policy could not decide on, waiting for a reviewer. The task
+ * token resumes the approval workflow once the content is reviewed. While a decision is sent to
+ * the workflow, the review stays PENDING and is claimed until claimed_until; a claim that has
+ * passed, e.g. because the function stopped, no longer counts.
+ */
+export type ContentReview = {
+  review_id: string;
+  review_status: ContentReviewStatusEnum;
+  property_id: string;
+  agency_id?: string;
+  description?: string;
+  images?: string[];
+  policy_version?: string;
+  findings: ModerationFinding[];
+  requested_on: string;
+  task_token?: string;
+  claimed_until?: string;
+  review_comment?: string;
+  reviewed_by?: string;
+  reviewed_on?: string;
+};
+
+// Index of the reviews by status, in the order they were requested
+export const REVIEW_STATUS_INDEX = "ReviewStatusIndex";
+
+/**
+ * Reviews are identified by the execution of the approval workflow waiting for them.
+ * @param executionId The ARN of the execution
+ * @returns The review id
+ */
+export function contentReviewIdOf(executionId: string): string {
+  return executionId.split(":").pop() ?? executionId;
+}
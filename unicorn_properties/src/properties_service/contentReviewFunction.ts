@@ -0,0 +1,438 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import {
+  APIGatewayProxyEvent,
+  APIGatewayProxyResult,
+  Context,
+} from "aws-lambda";
+import type { LambdaInterface } from "@aws-lambda-powertools/commons";
+import { MetricUnits } from "@aws-lambda-powertools/metrics";
+import { logger, metrics, tracer } from "./powertools";
+import {
+  AttributeValue,
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  QueryCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import { marshall, unmarshall } from "@aws-sdk/util-dynamodb";
+import {
+  SFNClient,
+  SendTaskSuccessCommand,
+  TaskDoesNotExist,
+  TaskTimedOut,
+} from "@aws-sdk/client-sfn";
+import {
+  ContentReview,
+  ContentReviewStatusEnum,
+  REVIEW_STATUS_INDEX,
+} from "./contentReview";
+
+// Empty configuration for DynamoDB
+const ddbClient = new DynamoDBClient({});
+const DDB_TABLE = process.env.CONTENT_REVIEW_TABLE ?? "ContentReviewTable";
+
+// Empty configuration for SFN
+const sfnClient = new SFNClient({});
+
+// A decision claims its review for longer than the function can run
+const REVIEW_CLAIM_MILLIS = 60 * 1000;
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+// Attributes of the key of the status index, which a next_token has to carry
+const REVIEW_PAGE_KEY = ["review_id", "review_status", "requested_on"];
+
+export type ContentReviewDecision = {
+  decision: ContentReviewStatusEnum.APPROVED | ContentReviewStatusEnum.DECLINED;
+  comment?: string;
+};
+
+/**
+ * A page of the reviews waiting for a reviewer.
+ * next_token - Pass as `next_token` to fetch the next page; absent on the last page.
+ */
+export type ContentReviewPage = {
+  reviews: ContentReview[];
+  next_token?: string;
+};
+
+/**
+ * Error raised when the request cannot be served as sent.
+ */
+class ContentReviewRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ContentReviewRequestError";
+  }
+}
+
+class ContentReviewFunction implements LambdaInterface {
+  /**
+   * Handle the requests of reviewers to list pending reviews and decide on them.
+   * Event doc: https://docs.aws.amazon.com/apigateway/latest/developerguide/set-up-lambda-proxy-integrations.html#api-gateway-simple-proxy-for-lambda-input-format
+   * @param {Object} event - API Gateway Lambda Proxy Input Format
+   *
+   * Return doc: https://docs.aws.amazon.com/apigateway/latest/developerguide/set-up-lambda-proxy-integrations.html
+   * @returns {Object} object - API Gateway Lambda Proxy Output Format
+   *
+   */
+  @tracer.captureLambdaHandler()
+  @metrics.logMetrics({ captureColdStartMetric: true })
+  @logger.injectLambdaContext({ logEvent: true })
+  public async handler(
+    event: APIGatewayProxyEvent,
+    context: Context
+  ): Promise<APIGatewayProxyResult> {
+    // Inspect request path.
+    logger.info(`Handling ${event.httpMethod} request for ${event.resource}`);
+    if (event.resource == "/reviews" && event.httpMethod == "GET") {
+      try {
+        return this.response(200, await this.listPendingReviews(event));
+      } catch (error) {
+        if (error instanceof ContentReviewRequestError) {
+          return this.response(400, { message: error.message });
+        }
+        throw error;
+      }
+    } else if (
+      event.resource == "/reviews/{review_id}" &&
+      event.httpMethod == "POST"
+    ) {
+      return await this.decideReview(event);
+    } else {
+      return this.response(400, {
+        message: `Unable to handle resource ${event.resource}`,
+      });
+    }
+  }
+
+  /**
+   * List the reviews waiting for a reviewer, oldest first, one page at a time. Claimed reviews are
+   * filtered out after they are read, so a page may hold fewer than limit reviews.
+   * Resource: GET /reviews?limit={limit}&next_token={next_token}
+   * @param event
+   * @returns A page of reviews
+   */
+  @tracer.captureMethod()
+  private async listPendingReviews(
+    event: APIGatewayProxyEvent
+  ): Promise<ContentReviewPage> {
+    const data = await ddbClient.send(
+      new QueryCommand({
+        TableName: DDB_TABLE,
+        IndexName: REVIEW_STATUS_INDEX,
+        KeyConditionExpression: "review_status = :s",
+        FilterExpression:
+          "attribute_not_exists(claimed_until) OR claimed_until < :now",
+        ExpressionAttributeValues: {
+          ":s": { S: ContentReviewStatusEnum.PENDING },
+          ":now": { S: new Date().toISOString() },
+        },
+        Limit: this.pageSizeFrom(event),
+        ExclusiveStartKey: this.decodeNextToken(
+          event.queryStringParameters?.next_token
+        ),
+      })
+    );
+
+    return {
+      reviews: (data.Items ?? []).map((item) =>
+        this.withoutTaskToken(unmarshall(item) as ContentReview)
+      ),
+      next_token: this.encodeNextToken(data.LastEvaluatedKey),
+    };
+  }
+
+  /**
+   * Approve or decline the content of a review with a comment, and resume its workflow
+   * Resource: POST /reviews/{review_id}
+   * @param event
+   * @returns
+   */
+  @tracer.captureMethod()
+  private async decideReview(
+    event: APIGatewayProxyEvent
+  ): Promise<APIGatewayProxyResult> {
+    const reviewId = event.pathParameters?.review_id ?? "";
+    let decision: ContentReviewDecision;
+    try {
+      decision = JSON.parse(event.body ?? "{}");
+    } catch (error) {
+      return this.response(400, { message: "Body is not valid JSON" });
+    }
+    const comment = decision.comment?.trim() ?? "";
+    if (
+      decision.decision !== ContentReviewStatusEnum.APPROVED &&
+      decision.decision !== ContentReviewStatusEnum.DECLINED
+    ) {
+      return this.response(400, {
+        message: "decision must be APPROVED or DECLINED",
+      });
+    }
+    if (decision.decision === ContentReviewStatusEnum.DECLINED && !comment) {
+      return this.response(400, {
+        message: "A comment is required to decline content",
+      });
+    }
+
+    const data = await ddbClient.send(
+      new GetItemCommand({
+        TableName: DDB_TABLE,
+        Key: { review_id: { S: reviewId } },
+      })
+    );
+    if (data.Item === undefined) {
+      return this.response(404, { message: `Review ${reviewId} not found` });
+    }
+    const review = unmarshall(data.Item) as ContentReview;
+    if (review.review_status !== ContentReviewStatusEnum.PENDING) {
+      return this.response(409, {
+        message: `Review ${reviewId} is already ${review.review_status}`,
+      });
+    }
+    const now = new Date();
+    if (
+      review.claimed_until !== undefined &&
+      review.claimed_until >= now.toISOString()
+    ) {
+      return this.response(409, {
+        message: `Review ${reviewId} is being decided`,
+      });
+    }
+
+    const reviewedBy =
+      event.requestContext?.identity?.userArn ??
+      event.requestContext?.identity?.caller ??
+      "unknown";
+    const decided: ContentReview = {
+      ...review,
+      review_status: decision.decision,
+      review_comment: comment,
+      reviewed_by: reviewedBy,
+      reviewed_on: now.toISOString(),
+    };
+    // The review is claimed before the workflow is resumed, so of two concurrent decisions only
+    // one is sent. The claim runs out, so a decision that never finishes does not block the review.
+    const claimedUntil = new Date(
+      now.getTime() + REVIEW_CLAIM_MILLIS
+    ).toISOString();
+    if (!(await this.claimReview(reviewId, now, claimedUntil))) {
+      return this.response(409, {
+        message: `Review ${reviewId} is no longer pending`,
+      });
+    }
+    try {
+      await sfnClient.send(
+        new SendTaskSuccessCommand({
+          taskToken: review.task_token,
+          output: JSON.stringify({
+            review_result: decision.decision,
+            comment,
+            reviewed_by: reviewedBy,
+          }),
+        })
+      );
+    } catch (error) {
+      if (error instanceof TaskTimedOut || error instanceof TaskDoesNotExist) {
+        logger.warn(`Review ${reviewId} is no longer awaited: ${error.name}`);
+        await this.settleReview(
+          { ...review, review_status: ContentReviewStatusEnum.EXPIRED },
+          claimedUntil
+        );
+        return this.response(409, {
+          message: `Review ${reviewId} is no longer pending`,
+        });
+      }
+      // The workflow did not get the decision, so the review can be decided again.
+      await this.settleReview(review, claimedUntil);
+      throw error;
+    }
+
+    await this.settleReview(decided, claimedUntil);
+    logger.info(`Review ${reviewId} ${decision.decision} by ${reviewedBy}`);
+    metrics.addMetric(
+      decision.decision === ContentReviewStatusEnum.APPROVED
+        ? "ContentReviewApproved"
+        : "ContentReviewDeclined",
+      MetricUnits.Count,
+      1
+    );
+    return this.response(200, this.withoutTaskToken(decided));
+  }
+
+  /**
+   * Claim a pending review that is not claimed, or whose claim has run out.
+   * @param reviewId
+   * @param now
+   * @param claimedUntil When the claim runs out
+   * @returns Whether the review could be claimed
+   */
+  private async claimReview(
+    reviewId: string,
+    now: Date,
+    claimedUntil: string
+  ): Promise<boolean> {
+    try {
+      await ddbClient.send(
+        new UpdateItemCommand({
+          TableName: DDB_TABLE,
+          Key: { review_id: { S: reviewId } },
+          UpdateExpression: "set claimed_until = :u",
+          ConditionExpression:
+            "review_status = :p AND (attribute_not_exists(claimed_until) OR claimed_until < :now)",
+          ExpressionAttributeValues: marshall({
+            ":u": claimedUntil,
+            ":p": ContentReviewStatusEnum.PENDING,
+            ":now": now.toISOString(),
+          }),
+        })
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        logger.warn(`Review ${reviewId} was decided concurrently`);
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Finish deciding a review: record how it ended and drop the task token, or release the claim
+   * so the review can be decided again.
+   * @param review The review as it ends up; a PENDING review is released
+   * @param claimedUntil The claim of this decision
+   */
+  private async settleReview(
+    review: ContentReview,
+    claimedUntil: string
+  ): Promise<void> {
+    let updateExpression = "remove claimed_until";
+    let values: Record<string, string | undefined> = {};
+    if (review.review_status === ContentReviewStatusEnum.EXPIRED) {
+      // An expired review was never decided, so it only records its status.
+      updateExpression =
+        "set review_status = :s remove task_token, claimed_until";
+      values = { ":s": review.review_status };
+    } else if (review.review_status !== ContentReviewStatusEnum.PENDING) {
+      updateExpression =
+        "set review_status = :s, review_comment = :c, reviewed_by = :b, reviewed_on = :o remove task_token, claimed_until";
+      values = {
+        ":s": review.review_status,
+        ":c": review.review_comment,
+        ":b": review.reviewed_by,
+        ":o": review.reviewed_on,
+      };
+    }
+    try {
+      await ddbClient.send(
+        new UpdateItemCommand({
+          TableName: DDB_TABLE,
+          Key: { review_id: { S: review.review_id } },
+          UpdateExpression: updateExpression,
+          ConditionExpression: "review_status = :p AND claimed_until = :u",
+          ExpressionAttributeValues: marshall({
+            ":p": ContentReviewStatusEnum.PENDING,
+            ":u": claimedUntil,
+            ...values,
+          }),
+        })
+      );
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        // The workflow expired the review when it stopped waiting for it.
+        logger.warn(`Review ${review.review_id} was settled already`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read the requested page size, capped at MAX_PAGE_SIZE.
+   * @param event
+   * @returns The page size
+   */
+  private pageSizeFrom(event: APIGatewayProxyEvent): number {
+    const limit = event.queryStringParameters?.limit;
+    if (limit === undefined) {
+      return DEFAULT_PAGE_SIZE;
+    }
+    const pageSize = Number(limit);
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new ContentReviewRequestError(
+        "Query parameter limit must be a positive integer"
+      );
+    }
+    return Math.min(pageSize, MAX_PAGE_SIZE);
+  }
+
+  /**
+   * Turn the DynamoDB LastEvaluatedKey into an opaque cursor.
+   * @param key
+   * @returns The cursor, or undefined on the last page
+   */
+  private encodeNextToken(
+    key: Record<string, AttributeValue> | undefined
+  ): string | undefined {
+    if (key === undefined) {
+      return undefined;
+    }
+    return Buffer.from(JSON.stringify(key)).toString("base64url");
+  }
+
+  /**
+   * Turn a cursor back into the DynamoDB ExclusiveStartKey. The cursor is sent by the client, so
+   * it has to hold exactly the string attributes of the key of the status index.
+   * @param token The cursor returned with the previous page
+   * @returns The ExclusiveStartKey, or undefined for the first page
+   */
+  private decodeNextToken(
+    token: string | undefined
+  ): Record<string, AttributeValue> | undefined {
+    if (token === undefined || token === "") {
+      return undefined;
+    }
+    let key: unknown;
+    try {
+      key = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    } catch {
+      throw new ContentReviewRequestError(
+        "Query parameter next_token is invalid"
+      );
+    }
+    const isStringAttribute = (value: unknown) =>
+      typeof value === "object" &&
+      value !== null &&
+      Object.keys(value).length === 1 &&
+      typeof (value as { S?: unknown }).S === "string";
+    if (
+      typeof key !== "object" ||
+      key === null ||
+      Array.isArray(key) ||
+      Object.keys(key).length !== REVIEW_PAGE_KEY.length ||
+      !REVIEW_PAGE_KEY.every((attribute) =>
+        isStringAttribute((key as Record<string, unknown>)[attribute])
+      )
+    ) {
+      throw new ContentReviewRequestError(
+        "Query parameter next_token is invalid"
+      );
+    }
+    return key as Record<string, AttributeValue>;
+  }
+
+  private withoutTaskToken(review: ContentReview): ContentReview {
+    const { task_token, claimed_until, ...rest } = review;
+    return rest;
+  }
+
+  private response(statusCode: number, body: any): APIGatewayProxyResult {
+    return { statusCode, body: JSON.stringify(body) };
+  }
+}
+
+export const myFunction = new ContentReviewFunction();
+export const lambdaHandler = myFunction.handler.bind(myFunction);
@@ -0,0 +1,81 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { Context } from "aws-lambda";
+import type { LambdaInterface } from "@aws-lambda-powertools/commons";
+import { MetricUnits } from "@aws-lambda-powertools/metrics";
+import { logger, metrics, tracer } from "./powertools";
+import { DynamoDBClient, PutItemCommand } from "@aws-sdk/client-dynamodb";
+import { marshall } from "@aws-sdk/util-dynamodb";
+import {
+  ContentReview,
+  ContentReviewStatusEnum,
+  contentReviewIdOf,
+} from "./contentReview";
+
+// Empty configuration for DynamoDB
+const ddbClient = new DynamoDBClient({});
+const DDB_TABLE = process.env.CONTENT_REVIEW_TABLE ?? "ContentReviewTable";
+
+export type StepFunctionsResponse = {
+  statusCode: number;
+  body: string;
+};
+
+class ContentReviewRequestFunction implements LambdaInterface {
+  /**
+   * Park the approval workflow until a reviewer decides on content that needs review. The review
+   * item stores the task token, which the reviews API uses to resume the workflow.
+   * @param {Object} event - Step Functions input with the listing, its validation check and the task token
+   * @returns {StepFunctionsResponse}
+   *
+   */
+  @tracer.captureLambdaHandler()
+  @metrics.logMetrics({ captureColdStartMetric: true })
+  @logger.injectLambdaContext({ logEvent: true })
+  public async handler(
+    event: any,
+    context: Context
+  ): Promise<StepFunctionsResponse> {
+    const input = event.Input;
+    const validationCheck = event.ValidationCheck ?? {};
+    const review: ContentReview = {
+      review_id: contentReviewIdOf(event.ExecutionId),
+      review_status: ContentReviewStatusEnum.PENDING,
+      property_id: input.property_id,
+      agency_id: input.agency_id,
+      description: input.description,
+      images: input.images,
+      policy_version: validationCheck.policy_version,
+      findings: validationCheck.findings ?? [],
+      requested_on: new Date().toISOString(),
+      task_token: event.TaskToken,
+    };
+    logger.info(
+      `Requesting review ${review.review_id} for property ${review.property_id}`
+    );
+
+    await this.saveReview(review);
+    metrics.addMetric("ContentReviewRequested", MetricUnits.Count, 1);
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ review_id: review.review_id }),
+    };
+  }
+
+  /**
+   * Store the review item. A retried request replaces the item, with the same task token.
+   * @param review
+   */
+  @tracer.captureMethod()
+  private async saveReview(review: ContentReview): Promise<void> {
+    await ddbClient.send(
+      new PutItemCommand({
+        TableName: DDB_TABLE,
+        Item: marshall(review, { removeUndefinedValues: true }),
+      })
+    );
+  }
+}
+
+export const myFunction = new ContentReviewRequestFunction();
+export const lambdaHandler = myFunction.handler.bind(myFunction);
@@ -28,6 +28,7 @@ export type ContractStatus = {
   contract_id: string;
   property_id: string;
   contract_status?: string;
+  agency_id?: string;
   TaskToken?: string;
 };
 
@@ -65,6 +66,7 @@ class ContractExistsCheckerFunction implements LambdaInterface {
       const detail = event.Input;
       logger.info(`Input: ${JSON.stringify(detail)}`);
       const propertyId = detail.property_id;
+      const agencyId = detail.agency_id;
 
       // Look for the contract in the ContractStatusTable and check it's status
       logger.info(`Get contract status for property: ${propertyId}`);
@@ -80,6 +82,13 @@ class ContractExistsCheckerFunction implements LambdaInterface {
         const msg = `Contract not in system yet for ${propertyId}`;
         logger.warn(msg);
         contractExists = false;
+      } else if (
+        currentStatus.agency_id !== undefined &&
+        currentStatus.agency_id !== agencyId
+      ) {
+        // The contract of another agency is no contract for this listing
+        logger.warn(`Contract for ${propertyId} is not managed by ${agencyId}`);
+        contractExists = false;
       } else {
         contractExists = true;
       }
@@ -111,7 +120,8 @@ class ContractExistsCheckerFunction implements LambdaInterface {
   ): Promise<ContractStatus | undefined> {
     const getItemCommandInput: GetItemCommandInput = {
       Key: { property_id: { S: propertyId } },
-      ProjectionExpression: "contract_id, property_id, contract_status",
+      ProjectionExpression:
+        "contract_id, property_id, contract_status, agency_id",
       TableName: DDB_TABLE,
     };
 
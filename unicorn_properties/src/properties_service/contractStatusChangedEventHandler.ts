@@ -5,11 +5,14 @@ import type { LambdaInterface } from "@aws-lambda-powertools/commons";
 import { MetricUnits } from "@aws-lambda-powertools/metrics";
 import { logger, metrics, tracer } from "./powertools";
 import {
+  AttributeValue,
+  ConditionalCheckFailedException,
   DynamoDBClient,
   UpdateItemCommand,
   UpdateItemCommandInput,
   UpdateItemCommandOutput,
 } from "@aws-sdk/client-dynamodb";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
 import { ContractStatusChanged } from "../schema/unicorn_contracts/contractstatuschanged/ContractStatusChanged";
 import { Marshaller } from "../schema/unicorn_contracts/contractstatuschanged/marshaller/Marshaller";
 
@@ -56,7 +59,9 @@ class ContractStatusChangedFunction implements LambdaInterface {
   }
 
   /**
-   * Update the ContractStatus entry in the database
+   * Update the ContractStatus entry in the database. The entry keeps the agency of its first
+   * contract; a status for the same property from another agency is rejected. Events may arrive
+   * late or out of order, so a status older than the stored one is skipped.
    * @param statusEntry
    */
   @tracer.captureMethod()
@@ -64,26 +69,50 @@ class ContractStatusChangedFunction implements LambdaInterface {
     logger.info(
       `Updating status: ${statusEntry.contractStatus} for ${statusEntry.propertyId}`
     );
+    const orderKey = statusOrderKeyOf(statusEntry);
     const ddbUpdateCommandInput: UpdateItemCommandInput = {
       TableName: DDB_TABLE,
       Key: { property_id: { S: statusEntry.propertyId } },
       UpdateExpression:
-        "set contract_id = :c, contract_status = :t, contract_last_modified_on = :m",
+        "set contract_id = :c, contract_status = :t, contract_last_modified_on = :m, status_order_key = :k",
+      // Entries saved before the order key was introduced are compared by date only
+      ConditionExpression:
+        "(attribute_not_exists(status_order_key) AND (attribute_not_exists(contract_last_modified_on) OR contract_last_modified_on <= :m)) OR status_order_key < :k",
       ExpressionAttributeValues: {
         ":c": { S: statusEntry.contractId as string },
         ":t": { S: statusEntry.contractStatus as string },
         ":m": { S: statusEntry.contractLastModifiedOn },
+        ":k": { S: orderKey },
       },
+      ReturnValuesOnConditionCheckFailure: "ALL_OLD",
     };
+    // Contracts created before agencies were introduced carry no agency
+    if (statusEntry.agencyId !== undefined) {
+      ddbUpdateCommandInput.UpdateExpression += ", agency_id = :a";
+      ddbUpdateCommandInput.ConditionExpression = `(attribute_not_exists(agency_id) OR agency_id = :a) AND (${ddbUpdateCommandInput.ConditionExpression})`;
+      ddbUpdateCommandInput.ExpressionAttributeValues = {
+        ...ddbUpdateCommandInput.ExpressionAttributeValues,
+        ":a": { S: statusEntry.agencyId },
+      };
+    }
     logger.info(`Constructed command ${JSON.stringify(ddbUpdateCommandInput)}`);
     const ddbUpdateCommand = new UpdateItemCommand(ddbUpdateCommandInput);
 
     // Send the command
-    const ddbUpdateCommandOutput: UpdateItemCommandOutput =
-      await ddbClient.send(ddbUpdateCommand);
+    let ddbUpdateCommandOutput: UpdateItemCommandOutput;
+    try {
+      ddbUpdateCommandOutput = await ddbClient.send(ddbUpdateCommand);
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        this.logSkippedStatus(statusEntry, error.Item);
+        return;
+      }
+      throw error;
+    }
     logger.info(
       `Updated status: ${statusEntry.contractStatus} for ${statusEntry.propertyId}`
     );
+    metrics.addMetric("ContractStatusUpdated", MetricUnits.Count, 1);
     if (ddbUpdateCommandOutput.$metadata.httpStatusCode != 200) {
       const error: ContractStatusError = {
         contract_id: statusEntry.contractId,
@@ -96,6 +125,51 @@ class ContractStatusChangedFunction implements LambdaInterface {
       throw error;
     }
   }
+
+  /**
+   * Log and count a status that was not saved, with the reason it was skipped
+   * @param statusEntry
+   * @param storedItem The stored entry that failed the condition
+   */
+  private logSkippedStatus(
+    statusEntry: ContractStatusChanged,
+    storedItem?: Record<string, AttributeValue>
+  ) {
+    const stored = storedItem === undefined ? {} : unmarshall(storedItem);
+    if (
+      statusEntry.agencyId !== undefined &&
+      stored.agency_id !== undefined &&
+      stored.agency_id !== statusEntry.agencyId
+    ) {
+      logger.warn(
+        `Skipped status ${statusEntry.contractStatus} for ${statusEntry.propertyId}: property is managed by agency ${stored.agency_id}, not ${statusEntry.agencyId}`
+      );
+      metrics.addMetric("ContractStatusAgencyMismatch", MetricUnits.Count, 1);
+      return;
+    }
+    logger.warn(
+      `Skipped stale status ${statusEntry.contractStatus} for ${statusEntry.propertyId}`,
+      {
+        eventLastModifiedOn: statusEntry.contractLastModifiedOn,
+        storedLastModifiedOn: stored.contract_last_modified_on,
+        eventOrderKey: statusOrderKeyOf(statusEntry),
+        storedOrderKey: stored.status_order_key,
+        storedStatus: stored.contract_status,
+      }
+    );
+    metrics.addMetric("ContractStatusStaleSkipped", MetricUnits.Count, 1);
+  }
+}
+
+/**
+ * Build the key statuses of a property are ordered by: the date of the change, then the contract
+ * version, then the contract id, so two events never compare equal unless they are the same change.
+ * @param statusEntry
+ * @returns The order key, e.g. 2023-11-19T02:24:11.480Z#0000000003#617dda8c-...
+ */
+export function statusOrderKeyOf(statusEntry: ContractStatusChanged): string {
+  const version = String(statusEntry.version ?? 0).padStart(10, "0");
+  return `${statusEntry.contractLastModifiedOn}#${version}#${statusEntry.contractId}`;
 }
 
 export const myFunction = new ContractStatusChangedFunction();
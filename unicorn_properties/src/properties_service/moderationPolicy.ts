@@ -0,0 +1,322 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+/**
+ * Declarative policy deciding whether the description and images of a listing are safe to
+ * publish. Each decision records the version of the policy that produced it.
+ */
+export type ModerationPolicy = {
+  version: string;
+  sentiment: {
+    // Lowest score, by Comprehend sentiment, a description needs to pass. A description whose
+    // sentiment is not listed fails.
+    minimum_scores: Record<string, number>;
+    // Lowest score, by sentiment, from which a description that does not pass is reviewed by a
+    // person instead of failing
+    review_minimum_scores: Record<string, number>;
+  };
+  labels: {
+    // Lowest confidence, in percent, at which a Rekognition moderation label fails an image
+    minimum_confidence: number;
+    // Thresholds of particular labels or label categories, overriding minimum_confidence
+    category_minimum_confidence: Record<string, number>;
+    // Lowest confidence from which a label below its threshold has the image reviewed by a person
+    review_minimum_confidence?: number;
+    // Labels or categories that never fail an image
+    allow: string[];
+    // Labels or categories that fail an image at any confidence
+    deny: string[];
+  };
+};
+
+// The rules of the policy a finding can break
+export enum ModerationRuleEnum {
+  SENTIMENT_NOT_ALLOWED = "SENTIMENT_NOT_ALLOWED",
+  SENTIMENT_SCORE_TOO_LOW = "SENTIMENT_SCORE_TOO_LOW",
+  LABEL_DENIED = "LABEL_DENIED",
+  LABEL_CONFIDENCE_TOO_HIGH = "LABEL_CONFIDENCE_TOO_HIGH",
+  SENTIMENT_NEEDS_REVIEW = "SENTIMENT_NEEDS_REVIEW",
+  LABEL_NEEDS_REVIEW = "LABEL_NEEDS_REVIEW",
+}
+
+// Rules whose findings are decided by a reviewer rather than failing the content
+const REVIEW_RULES = [
+  ModerationRuleEnum.SENTIMENT_NEEDS_REVIEW,
+  ModerationRuleEnum.LABEL_NEEDS_REVIEW,
+];
+
+/**
+ * A violation of the policy, or content a reviewer has to decide on. Description findings carry the sentiment scores, image findings the
+ * index of the image and its moderation label.
+ */
+export type ModerationFinding = {
+  rule: ModerationRuleEnum;
+  message: string;
+  sentiment?: string;
+  sentiment_scores?: Record<string, number>;
+  minimum_score?: number;
+  image_index?: number;
+  label?: string;
+  parent_label?: string;
+  confidence?: number;
+  minimum_confidence?: number;
+};
+
+export type ModerationDecision = {
+  validation_result: "PASS" | "NEEDS_REVIEW" | "FAIL";
+  policy_version: string;
+  findings: ModerationFinding[];
+};
+
+export type ContentSentiment = {
+  Sentiment?: string;
+  SentimentScore?: Record<string, number>;
+};
+
+export type ImageModeration = {
+  ModerationLabels?: {
+    Name?: string;
+    ParentName?: string;
+    Confidence?: number;
+  }[];
+};
+
+// Passes positive and neutral descriptions and has mixed or less certain ones reviewed. Fails
+// images with a moderation label from 80% confidence, and has the labels Rekognition reports
+// below that, which it does from 50% confidence, reviewed.
+export const DEFAULT_MODERATION_POLICY: ModerationPolicy = {
+  version: "2",
+  sentiment: {
+    minimum_scores: { POSITIVE: 0.5, NEUTRAL: 0.5 },
+    review_minimum_scores: { POSITIVE: 0, NEUTRAL: 0, MIXED: 0 },
+  },
+  labels: {
+    minimum_confidence: 80,
+    category_minimum_confidence: {},
+    review_minimum_confidence: 50,
+    allow: [],
+    deny: [],
+  },
+};
+
+/**
+ * Load the moderation policy from its JSON configuration, or the default policy if there is none.
+ * @param configuration The policy as JSON
+ * @returns The moderation policy
+ * @throws {Error} If the configuration is not a valid policy
+ */
+export function loadModerationPolicy(
+  configuration: string | undefined
+): ModerationPolicy {
+  if (configuration === undefined || configuration.trim() === "") {
+    return DEFAULT_MODERATION_POLICY;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(configuration);
+  } catch (error) {
+    throw new Error("Invalid moderation policy: not valid JSON");
+  }
+  const invalid = (field: string) =>
+    new Error(`Invalid moderation policy: ${field}`);
+  if (
+    !isRecord(parsed) ||
+    typeof parsed.version !== "string" ||
+    parsed.version === ""
+  ) {
+    throw invalid("version must be a non-empty string");
+  }
+  const sentiment = isRecord(parsed.sentiment) ? parsed.sentiment : {};
+  if (!isScoreMap(sentiment.minimum_scores, 1)) {
+    throw invalid("sentiment.minimum_scores must map sentiments to 0-1");
+  }
+  const reviewScores = sentiment.review_minimum_scores ?? {};
+  if (!isScoreMap(reviewScores, 1)) {
+    throw invalid("sentiment.review_minimum_scores must map sentiments to 0-1");
+  }
+  const labels = isRecord(parsed.labels) ? parsed.labels : {};
+  if (!isScore(labels.minimum_confidence, 100)) {
+    throw invalid("labels.minimum_confidence must be between 0 and 100");
+  }
+  const categories = labels.category_minimum_confidence ?? {};
+  if (!isScoreMap(categories, 100)) {
+    throw invalid(
+      "labels.category_minimum_confidence must map labels to 0-100"
+    );
+  }
+  const reviewConfidence = labels.review_minimum_confidence;
+  if (reviewConfidence !== undefined && !isScore(reviewConfidence, 100)) {
+    throw invalid("labels.review_minimum_confidence must be between 0 and 100");
+  }
+  const allow = labels.allow ?? [];
+  const deny = labels.deny ?? [];
+  if (!isLabelList(allow)) {
+    throw invalid("labels.allow must be a list of labels");
+  }
+  if (!isLabelList(deny)) {
+    throw invalid("labels.deny must be a list of labels");
+  }
+
+  return {
+    version: parsed.version,
+    sentiment: {
+      minimum_scores: sentiment.minimum_scores,
+      review_minimum_scores: reviewScores,
+    },
+    labels: {
+      minimum_confidence: labels.minimum_confidence,
+      category_minimum_confidence: categories,
+      review_minimum_confidence: reviewConfidence,
+      allow,
+      deny,
+    },
+  };
+}
+
+/**
+ * Evaluate the sentiment of a description and the moderation labels of its images.
+ * @param policy The moderation policy
+ * @param contentSentiment The Comprehend sentiment of the description
+ * @param imageModerations The Rekognition moderation labels of each image
+ * @returns The decision, with a finding for every violation of the policy
+ */
+export function evaluateContent(
+  policy: ModerationPolicy,
+  contentSentiment: ContentSentiment,
+  imageModerations: ImageModeration[]
+): ModerationDecision {
+  const findings: ModerationFinding[] = [];
+
+  const sentiment = contentSentiment.Sentiment ?? "UNKNOWN";
+  const sentimentScores = contentSentiment.SentimentScore ?? {};
+  const minimumScore = policy.sentiment.minimum_scores[sentiment];
+  const reviewScore = policy.sentiment.review_minimum_scores[sentiment];
+  // Comprehend names the scores like Positive for a POSITIVE sentiment
+  const score =
+    sentimentScores[sentiment.charAt(0) + sentiment.slice(1).toLowerCase()] ??
+    0;
+  if (
+    (minimumScore === undefined || score < minimumScore) &&
+    reviewScore !== undefined &&
+    score >= reviewScore
+  ) {
+    findings.push({
+      rule: ModerationRuleEnum.SENTIMENT_NEEDS_REVIEW,
+      message: `Description sentiment ${sentiment} scored ${score} and needs review`,
+      sentiment,
+      sentiment_scores: sentimentScores,
+      minimum_score: minimumScore,
+    });
+  } else if (minimumScore === undefined) {
+    findings.push({
+      rule: ModerationRuleEnum.SENTIMENT_NOT_ALLOWED,
+      message: `Description sentiment ${sentiment} is not allowed`,
+      sentiment,
+      sentiment_scores: sentimentScores,
+    });
+  } else if (score < minimumScore) {
+    findings.push({
+      rule: ModerationRuleEnum.SENTIMENT_SCORE_TOO_LOW,
+      message: `Description sentiment ${sentiment} scored ${score}, below ${minimumScore}`,
+      sentiment,
+      sentiment_scores: sentimentScores,
+      minimum_score: minimumScore,
+    });
+  }
+
+  imageModerations.forEach((moderation, i) => {
+    for (const label of moderation.ModerationLabels ?? []) {
+      // A label is matched by its own name, then by its category
+      const names = [label.Name, label.ParentName].filter(
+        (name): name is string => name !== undefined && name !== ""
+      );
+      // Rekognition always reports a confidence; a label without one counts as certain
+      const confidence = label.Confidence ?? 100;
+      const imageFinding = {
+        image_index: i,
+        label: label.Name,
+        parent_label: label.ParentName || undefined,
+        confidence,
+      };
+      if (names.some((name) => policy.labels.deny.includes(name))) {
+        findings.push({
+          rule: ModerationRuleEnum.LABEL_DENIED,
+          message: `Image ${i} has denied label ${label.Name}`,
+          ...imageFinding,
+        });
+        continue;
+      }
+      if (names.some((name) => policy.labels.allow.includes(name))) {
+        continue;
+      }
+      const threshold =
+        names
+          .map((name) => policy.labels.category_minimum_confidence[name])
+          .find((value) => value !== undefined) ??
+        policy.labels.minimum_confidence;
+      if (confidence >= threshold) {
+        findings.push({
+          rule: ModerationRuleEnum.LABEL_CONFIDENCE_TOO_HIGH,
+          message: `Image ${i} has label ${label.Name} at ${confidence}% confidence, from ${threshold}%`,
+          ...imageFinding,
+          minimum_confidence: threshold,
+        });
+      } else if (
+        policy.labels.review_minimum_confidence !== undefined &&
+        confidence >= policy.labels.review_minimum_confidence
+      ) {
+        findings.push({
+          rule: ModerationRuleEnum.LABEL_NEEDS_REVIEW,
+          message: `Image ${i} has label ${label.Name} at ${confidence}% confidence and needs review`,
+          ...imageFinding,
+          minimum_confidence: threshold,
+        });
+      }
+    }
+  });
+
+  return {
+    validation_result: validationResultOf(findings),
+    policy_version: policy.version,
+    findings,
+  };
+}
+
+/**
+ * Content fails on any finding a reviewer cannot overrule, and needs review on any other.
+ * @param findings
+ * @returns The validation result
+ */
+function validationResultOf(
+  findings: ModerationFinding[]
+): ModerationDecision["validation_result"] {
+  if (findings.some((finding) => !REVIEW_RULES.includes(finding.rule))) {
+    return "FAIL";
+  }
+  return findings.length > 0 ? "NEEDS_REVIEW" : "PASS";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isScore(value: unknown, maximum: number): value is number {
+  return typeof value === "number" && value >= 0 && value <= maximum;
+}
+
+function isScoreMap(
+  value: unknown,
+  maximum: number
+): value is Record<string, number> {
+  return (
+    isRecord(value) &&
+    Object.values(value).every((score) => isScore(score, maximum))
+  );
+}
+
+function isLabelList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((label) => typeof label === "string")
+  );
+}
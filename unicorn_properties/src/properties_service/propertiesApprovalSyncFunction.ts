@@ -9,20 +9,45 @@ import {
 import type { LambdaInterface } from "@aws-lambda-powertools/commons";
 import { MetricUnits } from "@aws-lambda-powertools/metrics";
 import { logger, metrics, tracer } from "./powertools";
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
 import {
   SFNClient,
+  SendTaskFailureCommand,
+  SendTaskFailureCommandInput,
+  SendTaskHeartbeatCommand,
   SendTaskSuccessCommand,
   SendTaskSuccessCommandInput,
+  TaskDoesNotExist,
+  TaskTimedOut,
 } from "@aws-sdk/client-sfn";
 
+// Empty configuration for DynamoDB
+const ddbClient = new DynamoDBClient({});
+const DDB_TABLE = process.env.CONTRACT_STATUS_TABLE ?? "ContractStatusTable";
+
 // Empty configuration for SFN
 const sfnClient = new SFNClient({});
 
+// Contract statuses that can never become APPROVED, and the error the waiting workflow fails with
+const CONTRACT_FAILURE_ERRORS: Record<string, string> = {
+  CANCELLED: "ContractCancelled",
+  EXPIRED: "ContractExpired",
+};
+
+// Task tokens of the waiting workflows, by execution
+const TASK_TOKENS = "sfn_wait_approved_task_tokens";
+const LEGACY_TASK_TOKEN = "sfn_wait_approved_task_token";
+
 export type ContractStatus = {
   contract_id?: string;
   contract_status?: string;
+  contract_last_modified_on?: string;
   property_id: string;
-  sfn_wait_approved_task_token?: string;
+  task_tokens: Record<string, string>;
 };
 
 class PropertiesApprovalSyncFunction implements LambdaInterface {
@@ -59,32 +84,73 @@ class PropertiesApprovalSyncFunction implements LambdaInterface {
           continue;
         }
 
-        const mergedImage: ContractStatus = { ...oldImage, ...newImage };
-
         // Check if there's any work to be done.
-        if (newImage.sfn_wait_approved_task_token !== undefined) {
-          // We should be checking for Approval state.
-          if (newImage.contract_status === "APPROVED") {
-            // Let's send an update! Use the token from the merged image though.
+        const taskTokens = this.taskTokensToNotify(newImage, oldImage);
+        if (Object.keys(taskTokens).length === 0) {
+          // Nothing to do, just an updated contract with no new property approval workflow.
+          logger.info(
+            `Contract ${newImage.contract_id} has no property approval waiting on this update`
+          );
+          continue;
+        }
+
+        // We should be checking for Approval state.
+        if (newImage.contract_status === "APPROVED") {
+          // Only one of the waiting workflows publishes the evaluation of this approval. It is
+          // notified first, so the next one can take over if it stopped waiting.
+          let publisher = await this.claimEvaluation(
+            newImage,
+            Object.keys(taskTokens)
+          );
+          const executions = Object.keys(taskTokens).sort(
+            (a, b) => Number(b === publisher) - Number(a === publisher)
+          );
+          for (const [i, execution] of executions.entries()) {
             logger.info(
-              `Sending CONTRACT APPROVED task success to token ${mergedImage.sfn_wait_approved_task_token}`
+              `Sending CONTRACT APPROVED task success to execution ${execution}`
             );
-            await this.sendTaskSuccess(
-              mergedImage.sfn_wait_approved_task_token
+            const sent = await this.notifyTask(() =>
+              this.sendTaskSuccess(
+                taskTokens[execution],
+                execution === publisher
+              )
             );
+            if (!sent && execution === publisher) {
+              publisher = executions[i + 1];
+            }
+          }
+          await this.removeTaskTokens(newImage.property_id, taskTokens);
+        } else if (
+          newImage.contract_status !== undefined &&
+          CONTRACT_FAILURE_ERRORS[newImage.contract_status] !== undefined
+        ) {
+          // The contract will never be approved, so stop waiting for it.
+          for (const [execution, taskToken] of Object.entries(taskTokens)) {
             logger.info(
-              `Sent task success to token ${mergedImage.sfn_wait_approved_task_token}`
+              `Sending CONTRACT ${newImage.contract_status} task failure to execution ${execution}`
             );
-          } else {
-            logger.warn(
-              `Contract ${mergedImage.contract_id} is not in APPROVED state. Skipping`
+            await this.notifyTask(() =>
+              this.sendTaskFailure(
+                taskToken,
+                CONTRACT_FAILURE_ERRORS[newImage.contract_status as string],
+                `Contract ${newImage.contract_id} for property ${newImage.property_id} is ${newImage.contract_status}`
+              )
+            );
+            metrics.addMetric(
+              "ApprovalsFailedByContract",
+              MetricUnits.Count,
+              1
             );
           }
+          await this.removeTaskTokens(newImage.property_id, taskTokens);
         } else {
-          // Nothing to do, just an updated contract with no property approval workflow yet.
-          logger.info(
-            `Contract ${mergedImage.contract_id} has no property approval requested yet`
+          // The contract changed but is not approved yet; keep the waits from timing out.
+          logger.warn(
+            `Contract ${newImage.contract_id} is not in APPROVED state. Sending heartbeats`
           );
+          for (const taskToken of Object.values(taskTokens)) {
+            await this.notifyTask(() => this.sendTaskHeartbeat(taskToken));
+          }
         }
       } catch (error: any) {
         logger.error(
@@ -114,30 +180,201 @@ class PropertiesApprovalSyncFunction implements LambdaInterface {
       return undefined;
     }
 
-    let result: ContractStatus = { property_id: "" };
-    result.contract_id = input["contract_id"].S;
-    result.property_id = input["property_id"].S ?? "";
-    result.contract_status = input["contract_status"].S;
-    if (input["sfn_wait_approved_task_token"] !== undefined) {
-      result.sfn_wait_approved_task_token =
-        input["sfn_wait_approved_task_token"].S;
+    let result: ContractStatus = { property_id: "", task_tokens: {} };
+    result.contract_id = input["contract_id"]?.S;
+    result.property_id = input["property_id"]?.S ?? "";
+    result.contract_status = input["contract_status"]?.S;
+    result.contract_last_modified_on = input["contract_last_modified_on"]?.S;
+    for (const [execution, taskToken] of Object.entries(
+      input[TASK_TOKENS]?.M ?? {}
+    )) {
+      if (taskToken.S !== undefined) {
+        result.task_tokens[execution] = taskToken.S;
+      }
+    }
+    // Written by workflows started before tokens were kept per execution.
+    if (input[LEGACY_TASK_TOKEN]?.S !== undefined) {
+      result.task_tokens[LEGACY_TASK_TOKEN] = input[LEGACY_TASK_TOKEN].S;
     }
 
     return result;
   }
 
+  /**
+   * Find the task tokens to notify about this update. A change to the contract concerns every
+   * waiting workflow, while any other update, such as a new approval request, only concerns the
+   * tokens it added.
+   * @param newImage
+   * @param oldImage
+   * @returns The task tokens by execution
+   */
+  private taskTokensToNotify(
+    newImage: ContractStatus,
+    oldImage: ContractStatus | undefined
+  ): Record<string, string> {
+    if (
+      oldImage === undefined ||
+      oldImage.contract_id !== newImage.contract_id ||
+      oldImage.contract_status !== newImage.contract_status ||
+      oldImage.contract_last_modified_on !== newImage.contract_last_modified_on
+    ) {
+      return newImage.task_tokens;
+    }
+    return Object.fromEntries(
+      Object.entries(newImage.task_tokens).filter(
+        ([execution, taskToken]) =>
+          oldImage.task_tokens[execution] !== taskToken
+      )
+    );
+  }
+
+  /**
+   * Choose the workflow that publishes the evaluation of this contract approval, among the ones
+   * being notified of it. The choice is recorded before any of them is notified, so a retry of the
+   * update makes the same choice, while a workflow that only starts waiting once the evaluation was
+   * published makes its own.
+   * @param status
+   * @param executions The executions of the workflows being notified
+   * @returns The execution that publishes the evaluation
+   */
+  @tracer.captureMethod()
+  private async claimEvaluation(
+    status: ContractStatus,
+    executions: string[]
+  ): Promise<string | undefined> {
+    const values = Object.fromEntries(
+      executions.map((execution, i) => [`:e${i}`, { S: execution }])
+    );
+    const candidates = Object.keys(values).join(", ");
+    try {
+      await ddbClient.send(
+        new UpdateItemCommand({
+          TableName: DDB_TABLE,
+          Key: { property_id: { S: status.property_id } },
+          UpdateExpression:
+            "set evaluated_contract_id = :c, evaluated_by = :e0",
+          ConditionExpression: `attribute_not_exists(evaluated_by) OR evaluated_contract_id <> :c OR NOT evaluated_by IN (${candidates})`,
+          ExpressionAttributeValues: {
+            ":c": { S: status.contract_id ?? "" },
+            ...values,
+          },
+          ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+        })
+      );
+      return executions[0];
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        // One of these workflows was chosen by an earlier attempt to process this update
+        const publisher = error.Item?.evaluated_by?.S;
+        logger.info(
+          `Evaluation of contract ${status.contract_id} is published by execution ${publisher}`
+        );
+        metrics.addMetric("ApprovalsDeduplicated", MetricUnits.Count, 1);
+        return publisher;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the task tokens of the workflows that are no longer waiting for the contract.
+   * @param propertyId
+   * @param taskTokens The task tokens by execution
+   */
+  @tracer.captureMethod()
+  private async removeTaskTokens(
+    propertyId: string,
+    taskTokens: Record<string, string>
+  ): Promise<void> {
+    const names: Record<string, string> = {};
+    const paths = Object.keys(taskTokens).map((execution, i) => {
+      if (execution === LEGACY_TASK_TOKEN) {
+        return LEGACY_TASK_TOKEN;
+      }
+      names["#tokens"] = TASK_TOKENS;
+      names[`#e${i}`] = execution;
+      return `#tokens.#e${i}`;
+    });
+    await ddbClient.send(
+      new UpdateItemCommand({
+        TableName: DDB_TABLE,
+        Key: { property_id: { S: propertyId } },
+        UpdateExpression: `remove ${paths.join(", ")}`,
+        ExpressionAttributeNames:
+          Object.keys(names).length > 0 ? names : undefined,
+      })
+    );
+  }
+
+  /**
+   * Send a message back to a StepFunctions instance, unless it stopped waiting for it. The
+   * workflow removes its own token from the table when it stops waiting.
+   * @param send
+   * @returns Whether the message was sent
+   */
+  private async notifyTask(send: () => Promise<void>): Promise<boolean> {
+    try {
+      await send();
+      return true;
+    } catch (error) {
+      if (error instanceof TaskTimedOut || error instanceof TaskDoesNotExist) {
+        logger.warn(`Task token is no longer waiting: ${error.name}`);
+        return false;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Send a TaskSuccess message back to the StepFunctions instance
    * @param taskToken
+   * @param publishEvaluation Whether this workflow publishes the evaluation of the approval
    */
   @tracer.captureMethod()
-  private async sendTaskSuccess(taskToken: any): Promise<void> {
+  private async sendTaskSuccess(
+    taskToken: any,
+    publishEvaluation: boolean
+  ): Promise<void> {
     const cmdInput: SendTaskSuccessCommandInput = {
       taskToken: taskToken,
-      output: JSON.stringify({ ContractPublished: true }),
+      output: JSON.stringify({
+        ContractPublished: true,
+        PublishEvaluation: publishEvaluation,
+      }),
     };
     await sfnClient.send(new SendTaskSuccessCommand(cmdInput));
   }
+
+  /**
+   * Send a TaskHeartbeat message back to the StepFunctions instance
+   * @param taskToken
+   */
+  @tracer.captureMethod()
+  private async sendTaskHeartbeat(taskToken: any): Promise<void> {
+    await sfnClient.send(
+      new SendTaskHeartbeatCommand({ taskToken: taskToken })
+    );
+  }
+
+  /**
+   * Send a TaskFailure message back to the StepFunctions instance
+   * @param taskToken
+   * @param error The name of the error the workflow can catch
+   * @param cause Why the task failed
+   */
+  @tracer.captureMethod()
+  private async sendTaskFailure(
+    taskToken: any,
+    error: string,
+    cause: string
+  ): Promise<void> {
+    const cmdInput: SendTaskFailureCommandInput = {
+      taskToken: taskToken,
+      error: error,
+      cause: cause,
+    };
+    await sfnClient.send(new SendTaskFailureCommand(cmdInput));
+  }
 }
 
 export const myFunction = new PropertiesApprovalSyncFunction();
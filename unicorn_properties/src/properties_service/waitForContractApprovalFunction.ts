@@ -5,6 +5,8 @@ import type { LambdaInterface } from "@aws-lambda-powertools/commons";
 import { MetricUnits } from "@aws-lambda-powertools/metrics";
 import { logger, metrics, tracer } from "./powertools";
 import {
+  AttributeValue,
+  ConditionalCheckFailedException,
   DynamoDBClient,
   GetItemCommand,
   GetItemCommandInput,
@@ -22,6 +24,8 @@ import {
 // Empty configuration for DynamoDB
 const ddbClient = new DynamoDBClient({});
 const DDB_TABLE = process.env.CONTRACT_STATUS_TABLE ?? "ContractStatusTable";
+// Task tokens of the waiting workflows, by execution
+const TASK_TOKENS = "sfn_wait_approved_task_tokens";
 
 // Empty configuration for SFN
 const sfnClient = new SFNClient({});
@@ -35,7 +39,9 @@ export type ContractStatus = {
   contract_id: string;
   property_id: string;
   contract_status?: string;
+  agency_id?: string;
   sfn_wait_approved_task_token?: string;
+  sfn_wait_approved_execution?: string;
 };
 
 export interface ContractStatusError extends Error {
@@ -44,6 +50,15 @@ export interface ContractStatusError extends Error {
   object: any;
 }
 
+export class ContractAgencyMismatchException extends Error {
+  constructor(
+    message = "The contract is managed by another agency than the listing"
+  ) {
+    super(message);
+    this.name = "ContractAgencyMismatchException";
+  }
+}
+
 class ContractStatusCheckerFunction implements LambdaInterface {
   /**
    * Handle the contract status checking.
@@ -64,6 +79,7 @@ class ContractStatusCheckerFunction implements LambdaInterface {
       const input = event.Input;
       const propertyId = input.property_id;
       const taskToken = event.TaskToken;
+      const executionId = event.ExecutionId;
 
       logger.info(`Input: ${JSON.stringify(input)}`);
       logger.info(`Task Token: ${taskToken}`);
@@ -82,12 +98,20 @@ class ContractStatusCheckerFunction implements LambdaInterface {
         contract_id: "",
         property_id: propertyId,
         contract_status: "Unknown",
+        // The workflow sets a null agency on a listing without one
+        agency_id: input.agency_id ?? undefined,
         sfn_wait_approved_task_token: taskToken,
+        sfn_wait_approved_execution: executionId,
       };
       await this.updateTaskToken(status);
       logger.info(`Contract status updated`);
       return { statusCode: 200, body: JSON.stringify(input) };
     } catch (error: any) {
+      // Failing the task lets the workflow decline the listing, as no approval can resume it.
+      if (error instanceof ConditionalCheckFailedException) {
+        metrics.addMetric("ContractAgencyMismatch", MetricUnits.Count, 1);
+        throw new ContractAgencyMismatchException();
+      }
       tracer.addErrorAsMetadata(error as Error);
       logger.error(
         `Error during Contract Status Check: ${JSON.stringify(error)}`
@@ -110,8 +134,7 @@ class ContractStatusCheckerFunction implements LambdaInterface {
   ): Promise<ContractStatus | undefined> {
     const getItemCommandInput: GetItemCommandInput = {
       Key: { property_id: { S: propertyId } },
-      ProjectionExpression:
-        "contract_id, property_id, contract_status, sfn_wait_approved_task_token",
+      ProjectionExpression: "contract_id, property_id, contract_status",
       TableName: DDB_TABLE,
     };
 
@@ -124,20 +147,76 @@ class ContractStatusCheckerFunction implements LambdaInterface {
   }
 
   /**
-   * Update the task token passed in by StepFunctions for this ContractStatus
+   * Add the task token passed in by StepFunctions to the tokens waiting on this ContractStatus.
+   * Tokens are kept by execution, so concurrent approval requests for a property do not replace
+   * each other and a workflow only removes its own token when the wait times out. The token is
+   * only stored against a contract of the same agency as the listing.
    * @param status
    */
   @tracer.captureMethod()
   private async updateTaskToken(status: ContractStatus): Promise<void> {
-    // Build the Command objects
-    const ddbUpdateCommandInput: UpdateItemCommandInput = {
-      TableName: DDB_TABLE,
-      Key: { property_id: { S: status.property_id } },
-      UpdateExpression: "set sfn_wait_approved_task_token = :t",
-      ExpressionAttributeValues: {
-        ":t": { S: status.sfn_wait_approved_task_token ?? "" },
-      },
+    // The first request for a property creates the map of tokens, which a concurrent request may
+    // do in between, so each way is tried until one of them applies.
+    let conditionError: unknown;
+    for (const createTokens of [false, true, false]) {
+      try {
+        await this.sendTaskTokenUpdate(status, createTokens);
+        return;
+      } catch (error) {
+        if (!(error instanceof ConditionalCheckFailedException)) {
+          throw error;
+        }
+        conditionError = error;
+      }
+    }
+    // The contract belongs to another agency.
+    throw conditionError;
+  }
+
+  /**
+   * Store the task token in the existing map of tokens, or create the map with it.
+   * @param status
+   * @param createTokens Whether to create the map of tokens
+   */
+  private async sendTaskTokenUpdate(
+    status: ContractStatus,
+    createTokens: boolean
+  ): Promise<void> {
+    const execution =
+      status.sfn_wait_approved_execution ?? status.sfn_wait_approved_task_token;
+    const taskToken: AttributeValue = {
+      S: status.sfn_wait_approved_task_token ?? "",
     };
+    // Build the Command objects
+    const ddbUpdateCommandInput: UpdateItemCommandInput = createTokens
+      ? {
+          TableName: DDB_TABLE,
+          Key: { property_id: { S: status.property_id } },
+          UpdateExpression: "set #tokens = :tokens",
+          ConditionExpression: "attribute_not_exists(#tokens)",
+          ExpressionAttributeNames: { "#tokens": TASK_TOKENS },
+          ExpressionAttributeValues: {
+            ":tokens": { M: { [execution ?? ""]: taskToken } },
+          },
+        }
+      : {
+          TableName: DDB_TABLE,
+          Key: { property_id: { S: status.property_id } },
+          UpdateExpression: "set #tokens.#execution = :t",
+          ConditionExpression: "attribute_exists(#tokens)",
+          ExpressionAttributeNames: {
+            "#tokens": TASK_TOKENS,
+            "#execution": execution ?? "",
+          },
+          ExpressionAttributeValues: { ":t": taskToken },
+        };
+    if (status.agency_id !== undefined) {
+      ddbUpdateCommandInput.ConditionExpression = `(attribute_not_exists(agency_id) OR agency_id = :a) AND ${ddbUpdateCommandInput.ConditionExpression}`;
+      ddbUpdateCommandInput.ExpressionAttributeValues = {
+        ...ddbUpdateCommandInput.ExpressionAttributeValues,
+        ":a": { S: status.agency_id },
+      };
+    }
     const ddbUpdateCommand = new UpdateItemCommand(ddbUpdateCommandInput);
 
     // Send the command
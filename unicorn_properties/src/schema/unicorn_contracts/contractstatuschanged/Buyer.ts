@@ -0,0 +1,28 @@
+
+
+export class Buyer {
+  'email': string;
+  'name': string;
+
+    private static discriminator: string | undefined = undefined;
+
+    private static attributeTypeMap: Array<{name: string, baseName: string, type: string}> = [
+        {
+            "name": "email",
+            "baseName": "email",
+            "type": "string"
+        },
+        {
+            "name": "name",
+            "baseName": "name",
+            "type": "string"
+        }    ];
+
+    public static getAttributeTypeMap() {
+        return Buyer.attributeTypeMap;
+    }
+}
+
+
+
+
@@ -1,14 +1,36 @@
-
+import { Buyer } from './Buyer';
 
 export class ContractStatusChanged {
+  'agencyId': string;
+  'buyer': Buyer;
+  'closingDate': string;
   'contractId': string;
   'contractLastModifiedOn': string;
   'contractStatus': string;
+  'currency': string;
+  'deposit': string;
+  'price': string;
   'propertyId': string;
+  'version': number;
 
     private static discriminator: string | undefined = undefined;
 
     private static attributeTypeMap: Array<{name: string, baseName: string, type: string}> = [
+        {
+            "name": "agencyId",
+            "baseName": "agency_id",
+            "type": "string"
+        },
+        {
+            "name": "buyer",
+            "baseName": "buyer",
+            "type": "Buyer"
+        },
+        {
+            "name": "closingDate",
+            "baseName": "closing_date",
+            "type": "string"
+        },
         {
             "name": "contractId",
             "baseName": "contract_id",
@@ -24,10 +46,30 @@ export class ContractStatusChanged {
             "baseName": "contract_status",
             "type": "string"
         },
+        {
+            "name": "currency",
+            "baseName": "currency",
+            "type": "string"
+        },
+        {
+            "name": "deposit",
+            "baseName": "deposit",
+            "type": "string"
+        },
+        {
+            "name": "price",
+            "baseName": "price",
+            "type": "string"
+        },
         {
             "name": "propertyId",
             "baseName": "property_id",
             "type": "string"
+        },
+        {
+            "name": "version",
+            "baseName": "version",
+            "type": "number"
         }    ];
 
     public static getAttributeTypeMap() {
@@ -1,4 +1,5 @@
 import { AWSEvent } from '../AWSEvent';
+import { Buyer } from '../Buyer';
 import { ContractStatusChanged } from '../ContractStatusChanged';
 
 let primitives = [
@@ -18,6 +19,7 @@ let enumsMap: {[index: string]: any} = {
 
 let typeMap: {[index: string]: any} = {
     "AWSEvent": AWSEvent,
+    "Buyer": Buyer,
     "ContractStatusChanged": ContractStatusChanged,
 }
 
@@ -0,0 +1,310 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { APIGatewayProxyEvent, Context } from "aws-lambda";
+import { randomUUID } from "crypto";
+import { lambdaHandler } from "../../src/properties_service/contentReviewFunction";
+import { mockClient } from "aws-sdk-client-mock";
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  QueryCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import { marshall } from "@aws-sdk/util-dynamodb";
+import {
+  SendTaskSuccessCommand,
+  SFNClient,
+  TaskTimedOut,
+} from "@aws-sdk/client-sfn";
+
+describe("Unit tests for content reviews", function () {
+  const ddbMock = mockClient(DynamoDBClient);
+  const sfnMock = mockClient(SFNClient);
+
+  const pendingReview = {
+    review_id: "execution1",
+    review_status: "PENDING",
+    property_id: "PROPERTY/australia#sydney/low#23",
+    agency_id: "agency1",
+    description: "A property with a view",
+    policy_version: "2",
+    findings: [],
+    requested_on: "2023-01-01T00:00:00.000Z",
+    task_token: "taskToken1",
+  };
+
+  const context: Context = {
+    awsRequestId: randomUUID(),
+  } as any;
+
+  function decisionEvent(body: any): APIGatewayProxyEvent {
+    return {
+      resource: "/reviews/{review_id}",
+      httpMethod: "POST",
+      pathParameters: { review_id: "execution1" },
+      body: JSON.stringify(body),
+      requestContext: {
+        identity: { userArn: "arn:aws:iam::123456789012:user/reviewer" },
+      },
+    } as any;
+  }
+
+  beforeEach(() => {
+    ddbMock.reset();
+    sfnMock.reset();
+  });
+
+  test("verifies pending reviews are listed a page at a time without their task token", async () => {
+    ddbMock.on(QueryCommand).resolves({
+      Items: [marshall(pendingReview)],
+      LastEvaluatedKey: {
+        review_id: { S: "execution1" },
+        review_status: { S: "PENDING" },
+        requested_on: { S: "2023-01-01T00:00:00.000Z" },
+      },
+    });
+
+    const response = await lambdaHandler(
+      {
+        resource: "/reviews",
+        httpMethod: "GET",
+        queryStringParameters: { limit: "1" },
+      } as any,
+      context
+    );
+    expect(response.statusCode).toEqual(200);
+    const page = JSON.parse(response.body);
+    expect(page.reviews.map((review: any) => review.review_id)).toEqual([
+      "execution1",
+    ]);
+    expect(page.reviews[0].task_token).toBeUndefined();
+    expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(1);
+    expect(ddbMock.commandCalls(QueryCommand)[0].args[0].input).toMatchObject({
+      IndexName: "ReviewStatusIndex",
+      Limit: 1,
+      ExpressionAttributeValues: { ":s": { S: "PENDING" } },
+    });
+
+    ddbMock.on(QueryCommand).resolves({
+      Items: [marshall({ ...pendingReview, review_id: "execution2" })],
+    });
+    const nextResponse = await lambdaHandler(
+      {
+        resource: "/reviews",
+        httpMethod: "GET",
+        queryStringParameters: { limit: "1", next_token: page.next_token },
+      } as any,
+      context
+    );
+    expect(JSON.parse(nextResponse.body).next_token).toBeUndefined();
+    expect(
+      ddbMock.commandCalls(QueryCommand)[1].args[0].input.ExclusiveStartKey
+    ).toEqual({
+      review_id: { S: "execution1" },
+      review_status: { S: "PENDING" },
+      requested_on: { S: "2023-01-01T00:00:00.000Z" },
+    });
+  });
+
+  test("verifies an invalid page of reviews is rejected", async () => {
+    for (const queryStringParameters of [
+      { limit: "0" },
+      { next_token: "not-a-token" },
+      {
+        next_token: Buffer.from(
+          JSON.stringify({ review_id: { S: "execution1" } })
+        ).toString("base64url"),
+      },
+    ]) {
+      const response = await lambdaHandler(
+        {
+          resource: "/reviews",
+          httpMethod: "GET",
+          queryStringParameters,
+        } as any,
+        context
+      );
+      expect(response.statusCode).toEqual(400);
+    }
+    expect(ddbMock.calls()).toHaveLength(0);
+  });
+
+  test("verifies an approval resumes the workflow", async () => {
+    ddbMock.on(GetItemCommand).resolves({ Item: marshall(pendingReview) });
+    ddbMock.on(UpdateItemCommand).resolves({});
+    sfnMock.on(SendTaskSuccessCommand).resolves({});
+
+    const response = await lambdaHandler(
+      decisionEvent({ decision: "APPROVED" }),
+      context
+    );
+    expect(response.statusCode).toEqual(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      review_status: "APPROVED",
+      reviewed_by: "arn:aws:iam::123456789012:user/reviewer",
+    });
+
+    const taskSuccess = sfnMock.commandCalls(SendTaskSuccessCommand)[0].args[0]
+      .input;
+    expect(taskSuccess.taskToken).toEqual("taskToken1");
+    expect(JSON.parse(taskSuccess.output ?? "")).toEqual({
+      review_result: "APPROVED",
+      comment: "",
+      reviewed_by: "arn:aws:iam::123456789012:user/reviewer",
+    });
+    const [claim, settlement] = ddbMock
+      .commandCalls(UpdateItemCommand)
+      .map((call) => call.args[0].input);
+    expect(claim.ConditionExpression).toEqual(
+      "review_status = :p AND (attribute_not_exists(claimed_until) OR claimed_until < :now)"
+    );
+    expect(settlement.ConditionExpression).toEqual(
+      "review_status = :p AND claimed_until = :u"
+    );
+    expect(settlement.ExpressionAttributeValues?.[":u"]).toEqual(
+      claim.ExpressionAttributeValues?.[":u"]
+    );
+    expect(settlement.UpdateExpression).toContain(
+      "remove task_token, claimed_until"
+    );
+    expect(settlement.ExpressionAttributeValues?.[":s"]).toEqual({
+      S: "APPROVED",
+    });
+  });
+
+  test("verifies a review claimed by a concurrent decision conflicts", async () => {
+    ddbMock.on(GetItemCommand).resolves({ Item: marshall(pendingReview) });
+    ddbMock.on(UpdateItemCommand).rejects(
+      new ConditionalCheckFailedException({
+        message: "The conditional request failed",
+        $metadata: {},
+      })
+    );
+
+    const response = await lambdaHandler(
+      decisionEvent({ decision: "APPROVED" }),
+      context
+    );
+    expect(response.statusCode).toEqual(409);
+    expect(sfnMock.calls()).toHaveLength(0);
+  });
+
+  test("verifies a review being decided conflicts until its claim runs out", async () => {
+    ddbMock.on(GetItemCommand).resolves({
+      Item: marshall({
+        ...pendingReview,
+        claimed_until: new Date(Date.now() + 60 * 1000).toISOString(),
+      }),
+    });
+
+    const response = await lambdaHandler(
+      decisionEvent({ decision: "APPROVED" }),
+      context
+    );
+    expect(response.statusCode).toEqual(409);
+    expect(ddbMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+    expect(sfnMock.calls()).toHaveLength(0);
+  });
+
+  test("verifies a review can be decided once a stale claim ran out", async () => {
+    ddbMock.on(GetItemCommand).resolves({
+      Item: marshall({
+        ...pendingReview,
+        claimed_until: "2023-01-01T00:01:00.000Z",
+      }),
+    });
+    ddbMock.on(UpdateItemCommand).resolves({});
+    sfnMock.on(SendTaskSuccessCommand).resolves({});
+
+    const response = await lambdaHandler(
+      decisionEvent({ decision: "APPROVED" }),
+      context
+    );
+    expect(response.statusCode).toEqual(200);
+    expect(JSON.parse(response.body).claimed_until).toBeUndefined();
+    expect(sfnMock.commandCalls(SendTaskSuccessCommand)).toHaveLength(1);
+  });
+
+  test("verifies a review can be decided again when the workflow was not resumed", async () => {
+    ddbMock.on(GetItemCommand).resolves({ Item: marshall(pendingReview) });
+    ddbMock.on(UpdateItemCommand).resolves({});
+    sfnMock.on(SendTaskSuccessCommand).rejects(new Error("Rate exceeded"));
+
+    await expect(
+      lambdaHandler(decisionEvent({ decision: "APPROVED" }), context)
+    ).rejects.toThrow("Rate exceeded");
+    const settlement = ddbMock.commandCalls(UpdateItemCommand)[1].args[0].input;
+    expect(settlement.UpdateExpression).toEqual("remove claimed_until");
+  });
+
+  test("verifies a decline requires a comment", async () => {
+    const response = await lambdaHandler(
+      decisionEvent({ decision: "DECLINED", comment: " " }),
+      context
+    );
+    expect(response.statusCode).toEqual(400);
+    expect(ddbMock.calls()).toHaveLength(0);
+    expect(sfnMock.calls()).toHaveLength(0);
+  });
+
+  test("verifies a decline passes the comment to the workflow", async () => {
+    ddbMock.on(GetItemCommand).resolves({ Item: marshall(pendingReview) });
+    ddbMock.on(UpdateItemCommand).resolves({});
+    sfnMock.on(SendTaskSuccessCommand).resolves({});
+
+    const response = await lambdaHandler(
+      decisionEvent({ decision: "DECLINED", comment: "Misleading photos" }),
+      context
+    );
+    expect(response.statusCode).toEqual(200);
+    const taskSuccess = sfnMock.commandCalls(SendTaskSuccessCommand)[0].args[0]
+      .input;
+    expect(JSON.parse(taskSuccess.output ?? "")).toMatchObject({
+      review_result: "DECLINED",
+      comment: "Misleading photos",
+    });
+  });
+
+  test("verifies an unknown review is not found", async () => {
+    ddbMock.on(GetItemCommand).resolves({});
+
+    const response = await lambdaHandler(
+      decisionEvent({ decision: "APPROVED" }),
+      context
+    );
+    expect(response.statusCode).toEqual(404);
+    expect(sfnMock.calls()).toHaveLength(0);
+  });
+
+  test("verifies a decided review cannot be decided again", async () => {
+    ddbMock.on(GetItemCommand).resolves({
+      Item: marshall({ ...pendingReview, review_status: "APPROVED" }),
+    });
+
+    const response = await lambdaHandler(
+      decisionEvent({ decision: "DECLINED", comment: "Too late" }),
+      context
+    );
+    expect(response.statusCode).toEqual(409);
+    expect(sfnMock.calls()).toHaveLength(0);
+  });
+
+  test("verifies a review the workflow stopped waiting for expires", async () => {
+    ddbMock.on(GetItemCommand).resolves({ Item: marshall(pendingReview) });
+    ddbMock.on(UpdateItemCommand).resolves({});
+    sfnMock
+      .on(SendTaskSuccessCommand)
+      .rejects(new TaskTimedOut({ message: "Timed out", $metadata: {} }));
+
+    const response = await lambdaHandler(
+      decisionEvent({ decision: "APPROVED" }),
+      context
+    );
+    expect(response.statusCode).toEqual(409);
+    const settlement = ddbMock.commandCalls(UpdateItemCommand)[1].args[0].input;
+    expect(settlement.ExpressionAttributeValues?.[":s"]).toEqual({
+      S: "EXPIRED",
+    });
+  });
+});
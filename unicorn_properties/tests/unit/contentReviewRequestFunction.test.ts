@@ -0,0 +1,78 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { Context } from "aws-lambda";
+import { randomUUID } from "crypto";
+import { lambdaHandler } from "../../src/properties_service/contentReviewRequestFunction";
+import { mockClient } from "aws-sdk-client-mock";
+import { DynamoDBClient, PutItemCommand } from "@aws-sdk/client-dynamodb";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+
+describe("Unit tests for content review requests", function () {
+  const ddbMock = mockClient(DynamoDBClient);
+
+  const baselineStepFunctionEvent = {
+    Input: {
+      property_id: "PROPERTY/australia#sydney/low#23",
+      agency_id: "agency1",
+      description: "A property with a view",
+      images: ["property_images/prop1.jpg"],
+    },
+    ValidationCheck: {
+      validation_result: "NEEDS_REVIEW",
+      policy_version: "2",
+      findings: [
+        {
+          rule: "SENTIMENT_NEEDS_REVIEW",
+          message: "Description sentiment MIXED scored 0.7 and needs review",
+          sentiment: "MIXED",
+        },
+      ],
+    },
+    TaskToken: "taskToken1",
+    ExecutionId:
+      "arn:aws:states:ap-southeast-2:123456789012:execution:ApprovalStateMachine:execution1",
+  };
+
+  beforeEach(() => {
+    ddbMock.reset();
+  });
+
+  test("verifies a pending review is stored with the task token", async () => {
+    ddbMock.on(PutItemCommand).resolves({});
+
+    const context: Context = {
+      awsRequestId: randomUUID(),
+    } as any;
+
+    const response = await lambdaHandler(baselineStepFunctionEvent, context);
+    expect(response.statusCode).toEqual(200);
+    expect(JSON.parse(response.body)).toEqual({ review_id: "execution1" });
+
+    const review = unmarshall(
+      ddbMock.commandCalls(PutItemCommand)[0].args[0].input.Item ?? {}
+    );
+    expect(review).toMatchObject({
+      review_id: "execution1",
+      review_status: "PENDING",
+      property_id: "PROPERTY/australia#sydney/low#23",
+      agency_id: "agency1",
+      description: "A property with a view",
+      policy_version: "2",
+      findings: baselineStepFunctionEvent.ValidationCheck.findings,
+      task_token: "taskToken1",
+    });
+    expect(review.requested_on).toBeDefined();
+  });
+
+  test("verifies a failed write is retried by the workflow", async () => {
+    ddbMock.on(PutItemCommand).rejects(new Error("Throttled"));
+
+    const context: Context = {
+      awsRequestId: randomUUID(),
+    } as any;
+
+    await expect(
+      lambdaHandler(baselineStepFunctionEvent, context)
+    ).rejects.toThrow("Throttled");
+  });
+});
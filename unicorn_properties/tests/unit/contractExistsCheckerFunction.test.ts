@@ -107,4 +107,29 @@ describe("Unit tests for contract status checking", function () {
       );
     }
   });
+
+  test("verifies contract of another agency check", async () => {
+    ddbMock.resolvesOnce({
+      $metadata: {
+        httpStatusCode: 200,
+      },
+      Item: {
+        contract_id: { S: "contract1" },
+        property_id: { S: "PROPERTY/australia#sydney/low#23" },
+        contract_status: { S: "APPROVED" },
+        agency_id: { S: "agency-2" },
+      },
+    });
+
+    const context: Context = {
+      awsRequestId: randomUUID(),
+    } as any;
+    const event = {
+      Input: { ...baselineStepFunctionEvent.Input, agency_id: "agency-1" },
+    };
+
+    await expect(lambdaHandler(event, context)).rejects.toBeInstanceOf(
+      ContractStatusNotFoundException
+    );
+  });
 });
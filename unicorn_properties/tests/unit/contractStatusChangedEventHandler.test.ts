@@ -2,12 +2,21 @@
 // SPDX-License-Identifier: MIT-0
 import { Context, EventBridgeEvent } from "aws-lambda";
 import { randomUUID } from "crypto";
-import { lambdaHandler } from "../../src/properties_service/contractStatusChangedEventHandler";
+import {
+  lambdaHandler,
+  statusOrderKeyOf,
+} from "../../src/properties_service/contractStatusChangedEventHandler";
+import { metrics } from "../../src/properties_service/powertools";
 import { mockClient } from "aws-sdk-client-mock";
 import {
+  ConditionalCheckFailedException,
   DynamoDBClient,
+  UpdateItemCommand,
   UpdateItemCommandInput,
 } from "@aws-sdk/client-dynamodb";
+import { Buyer } from "../../src/schema/unicorn_contracts/contractstatuschanged/Buyer";
+import { ContractStatusChanged } from "../../src/schema/unicorn_contracts/contractstatuschanged/ContractStatusChanged";
+import { Marshaller } from "../../src/schema/unicorn_contracts/contractstatuschanged/marshaller/Marshaller";
 
 describe("Unit tests for contract creation", function () {
   const ddbMock = mockClient(DynamoDBClient);
@@ -61,4 +70,149 @@ describe("Unit tests for contract creation", function () {
 
     await lambdaHandler(event, context);
   });
+
+  test("keeps the status of a property with the agency of its contract", async () => {
+    ddbMock
+      .on(UpdateItemCommand)
+      .resolves({ $metadata: { httpStatusCode: 200 } });
+
+    const context: Context = {
+      awsRequestId: randomUUID(),
+    } as any;
+    const event: EventBridgeEvent<string, any> = {
+      id: randomUUID(),
+      account: "nullAccount",
+      version: "0",
+      time: "nulltime",
+      region: "ap-southeast-2",
+      source: "unicorn.contracts",
+      resources: [""],
+      detail: {
+        contract_id: "contract1",
+        property_id: "property1",
+        agency_id: "agency-1",
+        contract_status: "APPROVED",
+        contract_last_modified_on: new Date().toISOString(),
+      },
+      "detail-type": "ContractStatusChanged",
+    };
+
+    await lambdaHandler(event, context);
+
+    const input = ddbMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+    expect(input.UpdateExpression).toContain("agency_id = :a");
+    expect(input.ConditionExpression).toContain(
+      "(attribute_not_exists(agency_id) OR agency_id = :a) AND "
+    );
+    expect(input.ExpressionAttributeValues?.[":a"]).toEqual({ S: "agency-1" });
+  });
+
+  test("only saves a status newer than the stored one", async () => {
+    ddbMock
+      .on(UpdateItemCommand)
+      .resolves({ $metadata: { httpStatusCode: 200 } });
+
+    await lambdaHandler(
+      {
+        detail: {
+          contract_id: "contract1",
+          property_id: "property1",
+          contract_status: "APPROVED",
+          contract_last_modified_on: "2023-11-19T02:24:11.480Z",
+          version: 3,
+        },
+      } as EventBridgeEvent<string, any>,
+      { awsRequestId: randomUUID() } as any
+    );
+
+    const input = ddbMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+    expect(input.ConditionExpression).toEqual(
+      "(attribute_not_exists(status_order_key) AND (attribute_not_exists(contract_last_modified_on) OR contract_last_modified_on <= :m)) OR status_order_key < :k"
+    );
+    expect(input.ExpressionAttributeValues?.[":k"]).toEqual({
+      S: "2023-11-19T02:24:11.480Z#0000000003#contract1",
+    });
+  });
+
+  test("skips and counts a stale status", async () => {
+    const addMetric = jest.spyOn(metrics, "addMetric");
+    ddbMock.on(UpdateItemCommand).rejects(
+      new ConditionalCheckFailedException({
+        message: "The conditional request failed",
+        $metadata: {},
+        Item: {
+          property_id: { S: "property1" },
+          contract_status: { S: "APPROVED" },
+          contract_last_modified_on: { S: "2023-11-19T02:24:11.480Z" },
+          status_order_key: {
+            S: "2023-11-19T02:24:11.480Z#0000000003#contract1",
+          },
+        },
+      })
+    );
+
+    await lambdaHandler(
+      {
+        detail: {
+          contract_id: "contract1",
+          property_id: "property1",
+          contract_status: "DRAFT",
+          contract_last_modified_on: "2023-11-18T10:00:00.000Z",
+          version: 1,
+        },
+      } as EventBridgeEvent<string, any>,
+      { awsRequestId: randomUUID() } as any
+    );
+
+    expect(addMetric).toHaveBeenCalledWith(
+      "ContractStatusStaleSkipped",
+      "Count",
+      1
+    );
+    addMetric.mockRestore();
+  });
+
+  test("orders statuses of the same date by version, then contract", () => {
+    const statusOf = (version: number, contractId: string) =>
+      Marshaller.unmarshal(
+        {
+          contract_id: contractId,
+          property_id: "property1",
+          contract_status: "APPROVED",
+          contract_last_modified_on: "2023-11-19T02:24:11.480Z",
+          version,
+        },
+        "ContractStatusChanged"
+      ) as ContractStatusChanged;
+
+    expect(
+      statusOrderKeyOf(statusOf(2, "b")) < statusOrderKeyOf(statusOf(10, "a"))
+    ).toBe(true);
+    expect(
+      statusOrderKeyOf(statusOf(2, "a")) < statusOrderKeyOf(statusOf(2, "b"))
+    ).toBe(true);
+  });
+
+  test("unmarshals the terms of the sale", () => {
+    const statusEntry: ContractStatusChanged = Marshaller.unmarshal(
+      {
+        contract_id: "contract1",
+        property_id: "property1",
+        contract_status: "APPROVED",
+        contract_last_modified_on: new Date().toISOString(),
+        buyer: { name: "Jane Doe", email: "jane@example.com" },
+        price: "350000.00",
+        currency: "USD",
+        deposit: "35000.00",
+        closing_date: "2024-03-01",
+      },
+      "ContractStatusChanged"
+    );
+
+    expect(statusEntry.buyer).toBeInstanceOf(Buyer);
+    expect(statusEntry.buyer.email).toEqual("jane@example.com");
+    expect(statusEntry.price).toEqual("350000.00");
+    expect(statusEntry.deposit).toEqual("35000.00");
+    expect(statusEntry.closingDate).toEqual("2024-03-01");
+  });
 });
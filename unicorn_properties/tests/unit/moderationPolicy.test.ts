@@ -0,0 +1,267 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import {
+  DEFAULT_MODERATION_POLICY,
+  ModerationPolicy,
+  evaluateContent,
+  loadModerationPolicy,
+} from "../../src/properties_service/moderationPolicy";
+
+describe("Unit tests for the moderation policy", function () {
+  const policy: ModerationPolicy = {
+    version: "2",
+    sentiment: {
+      minimum_scores: { POSITIVE: 0.5, NEUTRAL: 0.7 },
+      review_minimum_scores: {},
+    },
+    labels: {
+      minimum_confidence: 80,
+      category_minimum_confidence: { "Explicit Nudity": 50, Drugs: 95 },
+      allow: ["Smoking"],
+      deny: ["Hate Symbols"],
+    },
+  };
+
+  const positive = {
+    Sentiment: "POSITIVE",
+    SentimentScore: { Positive: 0.9, Neutral: 0.1 },
+  };
+
+  test("uses the default policy when none is configured", () => {
+    expect(loadModerationPolicy(undefined)).toEqual(DEFAULT_MODERATION_POLICY);
+    expect(loadModerationPolicy(" ")).toEqual(DEFAULT_MODERATION_POLICY);
+  });
+
+  test("loads a configured policy with optional label lists", () => {
+    expect(
+      loadModerationPolicy(
+        JSON.stringify({
+          version: "2",
+          sentiment: { minimum_scores: { POSITIVE: 0.5 } },
+          labels: { minimum_confidence: 80 },
+        })
+      )
+    ).toEqual({
+      version: "2",
+      sentiment: {
+        minimum_scores: { POSITIVE: 0.5 },
+        review_minimum_scores: {},
+      },
+      labels: {
+        minimum_confidence: 80,
+        category_minimum_confidence: {},
+        review_minimum_confidence: undefined,
+        allow: [],
+        deny: [],
+      },
+    });
+  });
+
+  test("rejects an invalid policy", () => {
+    expect(() => loadModerationPolicy("{")).toThrow(
+      "Invalid moderation policy: not valid JSON"
+    );
+    expect(() =>
+      loadModerationPolicy(
+        JSON.stringify({
+          version: "2",
+          sentiment: { minimum_scores: { POSITIVE: 50 } },
+          labels: { minimum_confidence: 80 },
+        })
+      )
+    ).toThrow(
+      "Invalid moderation policy: sentiment.minimum_scores must map sentiments to 0-1"
+    );
+    expect(() =>
+      loadModerationPolicy(
+        JSON.stringify({
+          version: "2",
+          sentiment: { minimum_scores: {} },
+          labels: { minimum_confidence: 80, deny: "Weapons" },
+        })
+      )
+    ).toThrow(
+      "Invalid moderation policy: labels.deny must be a list of labels"
+    );
+  });
+
+  test("reports the scores of a description that fails", () => {
+    expect(
+      evaluateContent(
+        policy,
+        {
+          Sentiment: "NEUTRAL",
+          SentimentScore: { Positive: 0.3, Neutral: 0.6, Negative: 0.1 },
+        },
+        []
+      ).findings
+    ).toEqual([
+      {
+        rule: "SENTIMENT_SCORE_TOO_LOW",
+        message: "Description sentiment NEUTRAL scored 0.6, below 0.7",
+        sentiment: "NEUTRAL",
+        sentiment_scores: { Positive: 0.3, Neutral: 0.6, Negative: 0.1 },
+        minimum_score: 0.7,
+      },
+    ]);
+  });
+
+  test("passes descriptions whose sentiment scores enough", () => {
+    expect(evaluateContent(policy, positive, [])).toEqual({
+      validation_result: "PASS",
+      policy_version: "2",
+      findings: [],
+    });
+    expect(
+      evaluateContent(
+        policy,
+        { Sentiment: "NEUTRAL", SentimentScore: { Neutral: 0.6 } },
+        []
+      ).findings.map((finding) => finding.message)
+    ).toEqual(["Description sentiment NEUTRAL scored 0.6, below 0.7"]);
+    expect(
+      evaluateContent(
+        policy,
+        { Sentiment: "NEGATIVE", SentimentScore: { Negative: 0.99 } },
+        []
+      ).findings.map((finding) => finding.message)
+    ).toEqual(["Description sentiment NEGATIVE is not allowed"]);
+  });
+
+  test("fails images by label and category thresholds", () => {
+    const decision = evaluateContent(policy, positive, [
+      {
+        ModerationLabels: [
+          { Name: "Suggestive", ParentName: "", Confidence: 79 },
+          { Name: "Nudity", ParentName: "Explicit Nudity", Confidence: 55 },
+        ],
+      },
+      {
+        ModerationLabels: [
+          { Name: "Pills", ParentName: "Drugs", Confidence: 90 },
+          { Name: "Violence", ParentName: "", Confidence: 85 },
+        ],
+      },
+    ]);
+
+    expect(decision.validation_result).toEqual("FAIL");
+    expect(decision.findings).toEqual([
+      {
+        rule: "LABEL_CONFIDENCE_TOO_HIGH",
+        message: "Image 0 has label Nudity at 55% confidence, from 50%",
+        image_index: 0,
+        label: "Nudity",
+        parent_label: "Explicit Nudity",
+        confidence: 55,
+        minimum_confidence: 50,
+      },
+      {
+        rule: "LABEL_CONFIDENCE_TOO_HIGH",
+        message: "Image 1 has label Violence at 85% confidence, from 80%",
+        image_index: 1,
+        label: "Violence",
+        confidence: 85,
+        minimum_confidence: 80,
+      },
+    ]);
+  });
+
+  test("applies the allow and deny lists", () => {
+    const decision = evaluateContent(policy, positive, [
+      {
+        ModerationLabels: [
+          { Name: "Smoking", ParentName: "Tobacco", Confidence: 99 },
+          { Name: "Nazi Party", ParentName: "Hate Symbols", Confidence: 10 },
+        ],
+      },
+    ]);
+
+    expect(decision.findings).toEqual([
+      {
+        rule: "LABEL_DENIED",
+        message: "Image 0 has denied label Nazi Party",
+        image_index: 0,
+        label: "Nazi Party",
+        parent_label: "Hate Symbols",
+        confidence: 10,
+      },
+    ]);
+  });
+
+  describe("with reviews", function () {
+    const reviewPolicy: ModerationPolicy = {
+      ...policy,
+      sentiment: {
+        ...policy.sentiment,
+        review_minimum_scores: { NEUTRAL: 0.3, MIXED: 0 },
+      },
+      labels: { ...policy.labels, review_minimum_confidence: 60 },
+    };
+
+    test("has borderline descriptions reviewed", () => {
+      const decision = evaluateContent(
+        reviewPolicy,
+        { Sentiment: "MIXED", SentimentScore: { Mixed: 0.4, Positive: 0.3 } },
+        []
+      );
+
+      expect(decision.validation_result).toEqual("NEEDS_REVIEW");
+      expect(decision.findings).toEqual([
+        {
+          rule: "SENTIMENT_NEEDS_REVIEW",
+          message: "Description sentiment MIXED scored 0.4 and needs review",
+          sentiment: "MIXED",
+          sentiment_scores: { Mixed: 0.4, Positive: 0.3 },
+        },
+      ]);
+      expect(
+        evaluateContent(
+          reviewPolicy,
+          { Sentiment: "NEUTRAL", SentimentScore: { Neutral: 0.2 } },
+          []
+        ).validation_result
+      ).toEqual("FAIL");
+    });
+
+    test("has images with low-confidence labels reviewed", () => {
+      const decision = evaluateContent(reviewPolicy, positive, [
+        {
+          ModerationLabels: [
+            { Name: "Violence", ParentName: "", Confidence: 65 },
+            { Name: "Suggestive", ParentName: "", Confidence: 55 },
+          ],
+        },
+      ]);
+
+      expect(decision.validation_result).toEqual("NEEDS_REVIEW");
+      expect(decision.findings).toEqual([
+        {
+          rule: "LABEL_NEEDS_REVIEW",
+          message:
+            "Image 0 has label Violence at 65% confidence and needs review",
+          image_index: 0,
+          label: "Violence",
+          confidence: 65,
+          minimum_confidence: 80,
+        },
+      ]);
+    });
+
+    test("fails content that also breaks a rule a reviewer cannot overrule", () => {
+      const decision = evaluateContent(reviewPolicy, positive, [
+        {
+          ModerationLabels: [
+            { Name: "Violence", ParentName: "", Confidence: 65 },
+            { Name: "Weapons", ParentName: "Violence", Confidence: 90 },
+          ],
+        },
+      ]);
+
+      expect(decision.validation_result).toEqual("FAIL");
+      expect(decision.findings.map((finding) => finding.rule)).toEqual([
+        "LABEL_NEEDS_REVIEW",
+        "LABEL_CONFIDENCE_TOO_HIGH",
+      ]);
+    });
+  });
+});
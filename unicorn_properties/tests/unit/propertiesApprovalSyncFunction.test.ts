@@ -1,13 +1,31 @@
 // Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: MIT-0
-import { Context, DynamoDBBatchResponse } from "aws-lambda";
+import {
+  AttributeValue,
+  Context,
+  DynamoDBBatchResponse,
+  DynamoDBStreamEvent,
+} from "aws-lambda";
 import { randomUUID } from "crypto";
 import { lambdaHandler } from "../../src/properties_service/propertiesApprovalSyncFunction";
 import { mockClient } from "aws-sdk-client-mock";
-import { SendTaskSuccessCommandInput, SFNClient } from "@aws-sdk/client-sfn";
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  SendTaskFailureCommand,
+  SendTaskHeartbeatCommand,
+  SendTaskSuccessCommand,
+  SendTaskSuccessCommandInput,
+  SFNClient,
+  TaskTimedOut,
+} from "@aws-sdk/client-sfn";
 
 describe("Unit tests for contract creation", function () {
   const sfnMock = mockClient(SFNClient);
+  const ddbMock = mockClient(DynamoDBClient);
 
   const baselineDynamoDBEvent = {
     Records: [
@@ -24,8 +42,10 @@ describe("Unit tests for contract creation", function () {
             },
           },
           NewImage: {
-            sfn_wait_approved_task_token: {
-              S: "taskToken1",
+            sfn_wait_approved_task_tokens: {
+              M: {
+                execution1: { S: "taskToken1" },
+              },
             },
             contract_status: {
               S: "APPROVED",
@@ -38,8 +58,10 @@ describe("Unit tests for contract creation", function () {
             },
           },
           OldImage: {
-            sfn_wait_approved_task_token: {
-              S: "taskToken0",
+            sfn_wait_approved_task_tokens: {
+              M: {
+                execution0: { S: "taskToken0" },
+              },
             },
             contract_status: {
               S: "DRAFT",
@@ -61,6 +83,7 @@ describe("Unit tests for contract creation", function () {
 
   beforeEach(() => {
     sfnMock.reset();
+    ddbMock.reset();
   });
 
   test("verifies Approved check", async () => {
@@ -88,13 +111,7 @@ describe("Unit tests for contract creation", function () {
     baselineDynamoDBEvent.Records[0].dynamodb.NewImage.contract_status.S =
       "New";
 
-    function verifyTaskSend(input: any) {
-      const cmd = input as SendTaskSuccessCommandInput;
-      const taskToken = cmd.taskToken;
-      fail("Unexpected call to SFN");
-    }
-
-    sfnMock.callsFake(verifyTaskSend);
+    sfnMock.on(SendTaskHeartbeatCommand).resolves({});
 
     const expectedId = randomUUID();
     const context: Context = {
@@ -105,8 +122,12 @@ describe("Unit tests for contract creation", function () {
       baselineDynamoDBEvent,
       context
     );
-    // Expect no errors.
+    // Expect no errors, and only a heartbeat to keep the workflow waiting.
     expect(response.batchItemFailures.length).toEqual(0);
+    expect(sfnMock.commandCalls(SendTaskSuccessCommand)).toHaveLength(0);
+    expect(
+      sfnMock.commandCalls(SendTaskHeartbeatCommand)[0].args[0].input
+    ).toEqual({ taskToken: "taskToken1" });
   });
 
   test("verifies non-status update check", async () => {
@@ -115,12 +136,7 @@ describe("Unit tests for contract creation", function () {
     baselineDynamoDBEvent.Records[0].dynamodb.NewImage.contract_status.S =
       "Draft";
 
-    function verifyTaskSend(input: any) {
-      const cmd = input as SendTaskSuccessCommandInput;
-      fail("Unexpected call to SFN");
-    }
-
-    sfnMock.callsFake(verifyTaskSend);
+    sfnMock.on(SendTaskHeartbeatCommand).resolves({});
 
     const expectedId = randomUUID();
     const context: Context = {
@@ -131,8 +147,12 @@ describe("Unit tests for contract creation", function () {
       baselineDynamoDBEvent,
       context
     );
-    // Expect no errors.
+    // Expect no errors, and only a heartbeat to keep the workflow waiting.
     expect(response.batchItemFailures.length).toEqual(0);
+    expect(sfnMock.commandCalls(SendTaskSuccessCommand)).toHaveLength(0);
+    expect(
+      sfnMock.commandCalls(SendTaskHeartbeatCommand)[0].args[0].input
+    ).toEqual({ taskToken: "taskToken1" });
   });
 
   test("verifies no task token check", async () => {
@@ -206,8 +226,10 @@ describe("Unit tests for contract creation", function () {
               },
             },
             NewImage: {
-              sfn_wait_approved_task_token: {
-                S: "taskToken1",
+              sfn_wait_approved_task_tokens: {
+                M: {
+                  execution1: { S: "taskToken1" },
+                },
               },
               contract_status: {
                 S: "APPROVED",
@@ -275,8 +297,10 @@ describe("Unit tests for contract creation", function () {
               },
             },
             NewImage: {
-              sfn_wait_approved_task_token: {
-                S: "taskToken1",
+              sfn_wait_approved_task_tokens: {
+                M: {
+                  execution1: { S: "taskToken1" },
+                },
               },
               contract_status: {
                 S: "APPROVED",
@@ -289,8 +313,10 @@ describe("Unit tests for contract creation", function () {
               },
             },
             OldImage: {
-              sfn_wait_approved_task_token: {
-                S: "taskToken0",
+              sfn_wait_approved_task_tokens: {
+                M: {
+                  execution0: { S: "taskToken0" },
+                },
               },
               contract_status: {
                 S: "APPROVED",
@@ -330,4 +356,341 @@ describe("Unit tests for contract creation", function () {
     // Expect no errors.
     expect(response.batchItemFailures.length).toEqual(0);
   });
+
+  test("fails the waiting workflow when the contract is cancelled", async () => {
+    const cancelledEvent = {
+      Records: [
+        {
+          eventID: "eventID1",
+          eventVersion: "1.1",
+          eventSource: "aws:dynamodb",
+          awsRegion: "ap-southeast-2",
+          dynamodb: {
+            ApproximateCreationDateTime: 1660484629,
+            Keys: {
+              property_id: {
+                S: "PROPERTY/australia#sydney/high#23",
+              },
+            },
+            NewImage: {
+              sfn_wait_approved_task_tokens: {
+                M: {
+                  execution1: { S: "taskToken1" },
+                },
+              },
+              contract_status: {
+                S: "CANCELLED",
+              },
+              contract_id: {
+                S: "contractId1",
+              },
+              property_id: {
+                S: "PROPERTY/australia#sydney/high#23",
+              },
+            },
+            SequenceNumber: "17970100000000005135132811",
+            SizeBytes: 825,
+          },
+          eventSourceARN: "contractStatusTableARN",
+        },
+      ],
+    };
+    sfnMock.on(SendTaskFailureCommand).resolves({});
+
+    const context: Context = {
+      awsRequestId: randomUUID(),
+    } as any;
+
+    const response: DynamoDBBatchResponse = await lambdaHandler(
+      cancelledEvent,
+      context
+    );
+
+    expect(response.batchItemFailures.length).toEqual(0);
+    expect(sfnMock.commandCalls(SendTaskSuccessCommand)).toHaveLength(0);
+    expect(
+      sfnMock.commandCalls(SendTaskFailureCommand)[0].args[0].input
+    ).toEqual({
+      taskToken: "taskToken1",
+      error: "ContractCancelled",
+      cause:
+        "Contract contractId1 for property PROPERTY/australia#sydney/high#23 is CANCELLED",
+    });
+  });
+
+  test("ignores a task token that is no longer waiting", async () => {
+    baselineDynamoDBEvent.Records[0].dynamodb.NewImage.contract_status.S =
+      "APPROVED";
+    sfnMock
+      .on(SendTaskSuccessCommand)
+      .rejects(new TaskTimedOut({ message: "Task Timed Out", $metadata: {} }));
+
+    const context: Context = {
+      awsRequestId: randomUUID(),
+    } as any;
+
+    const response: DynamoDBBatchResponse = await lambdaHandler(
+      baselineDynamoDBEvent,
+      context
+    );
+
+    expect(response.batchItemFailures.length).toEqual(0);
+  });
+
+  describe("with concurrent approval requests", function () {
+    const contractStatusEvent = (
+      newImage: Record<string, AttributeValue>,
+      oldImage: Record<string, AttributeValue>
+    ): DynamoDBStreamEvent => ({
+      Records: [
+        {
+          eventID: "eventID1",
+          dynamodb: {
+            NewImage: {
+              contract_id: { S: "contractId1" },
+              property_id: { S: "PROPERTY/australia#sydney/high#23" },
+              ...newImage,
+            },
+            OldImage: {
+              contract_id: { S: "contractId1" },
+              property_id: { S: "PROPERTY/australia#sydney/high#23" },
+              ...oldImage,
+            },
+          },
+        },
+      ],
+    });
+
+    const taskTokens = (tokens: Record<string, string>): AttributeValue => ({
+      M: Object.fromEntries(
+        Object.entries(tokens).map(([execution, token]) => [
+          execution,
+          { S: token },
+        ])
+      ),
+    });
+
+    const sentOutputs = () =>
+      sfnMock
+        .commandCalls(SendTaskSuccessCommand)
+        .map((call) => [
+          call.args[0].input.taskToken,
+          JSON.parse(call.args[0].input.output ?? "{}"),
+        ]);
+
+    const context: Context = {
+      awsRequestId: randomUUID(),
+    } as any;
+
+    beforeEach(() => {
+      sfnMock.on(SendTaskSuccessCommand).resolves({});
+      ddbMock.on(UpdateItemCommand).resolves({});
+    });
+
+    test("completes every request and publishes the evaluation once", async () => {
+      const response = await lambdaHandler(
+        contractStatusEvent(
+          {
+            contract_status: { S: "APPROVED" },
+            sfn_wait_approved_task_tokens: taskTokens({
+              execution1: "taskToken1",
+              execution2: "taskToken2",
+            }),
+          },
+          {
+            contract_status: { S: "DRAFT" },
+            sfn_wait_approved_task_tokens: taskTokens({
+              execution1: "taskToken1",
+              execution2: "taskToken2",
+            }),
+          }
+        ),
+        context
+      );
+
+      expect(response.batchItemFailures.length).toEqual(0);
+      expect(sentOutputs()).toEqual([
+        ["taskToken1", { ContractPublished: true, PublishEvaluation: true }],
+        ["taskToken2", { ContractPublished: true, PublishEvaluation: false }],
+      ]);
+      const [claim, removal] = ddbMock
+        .commandCalls(UpdateItemCommand)
+        .map((call) => call.args[0].input);
+      expect(claim).toMatchObject({
+        UpdateExpression: "set evaluated_contract_id = :c, evaluated_by = :e0",
+        ConditionExpression:
+          "attribute_not_exists(evaluated_by) OR evaluated_contract_id <> :c OR NOT evaluated_by IN (:e0, :e1)",
+        ExpressionAttributeValues: {
+          ":c": { S: "contractId1" },
+          ":e0": { S: "execution1" },
+          ":e1": { S: "execution2" },
+        },
+      });
+      expect(removal).toMatchObject({
+        UpdateExpression: "remove #tokens.#e0, #tokens.#e1",
+        ExpressionAttributeNames: {
+          "#tokens": "sfn_wait_approved_task_tokens",
+          "#e0": "execution1",
+          "#e1": "execution2",
+        },
+      });
+    });
+
+    test("passes on the evaluation when the first request stopped waiting", async () => {
+      sfnMock
+        .on(SendTaskSuccessCommand, { taskToken: "taskToken1" })
+        .rejects(
+          new TaskTimedOut({ message: "Task Timed Out", $metadata: {} })
+        );
+
+      const response = await lambdaHandler(
+        contractStatusEvent(
+          {
+            contract_status: { S: "APPROVED" },
+            sfn_wait_approved_task_tokens: taskTokens({
+              execution1: "taskToken1",
+              execution2: "taskToken2",
+            }),
+          },
+          { contract_status: { S: "DRAFT" } }
+        ),
+        context
+      );
+
+      expect(response.batchItemFailures.length).toEqual(0);
+      expect(sentOutputs()[1]).toEqual([
+        "taskToken2",
+        { ContractPublished: true, PublishEvaluation: true },
+      ]);
+    });
+
+    test("publishes the evaluation from the same request when an approval is retried", async () => {
+      ddbMock
+        .on(UpdateItemCommand, {
+          UpdateExpression:
+            "set evaluated_contract_id = :c, evaluated_by = :e0",
+        })
+        .rejects(
+          new ConditionalCheckFailedException({
+            message: "The conditional request failed",
+            $metadata: {},
+            Item: {
+              evaluated_contract_id: { S: "contractId1" },
+              evaluated_by: { S: "execution2" },
+            },
+          })
+        );
+
+      const response = await lambdaHandler(
+        contractStatusEvent(
+          {
+            contract_status: { S: "APPROVED" },
+            sfn_wait_approved_task_tokens: taskTokens({
+              execution1: "taskToken1",
+              execution2: "taskToken2",
+            }),
+          },
+          { contract_status: { S: "DRAFT" } }
+        ),
+        context
+      );
+
+      expect(response.batchItemFailures.length).toEqual(0);
+      expect(sentOutputs()).toEqual([
+        ["taskToken2", { ContractPublished: true, PublishEvaluation: true }],
+        ["taskToken1", { ContractPublished: true, PublishEvaluation: false }],
+      ]);
+    });
+
+    test("publishes the evaluation of a request made after the approval was evaluated", async () => {
+      const response = await lambdaHandler(
+        contractStatusEvent(
+          {
+            contract_status: { S: "APPROVED" },
+            sfn_wait_approved_task_tokens: taskTokens({
+              execution2: "taskToken2",
+            }),
+          },
+          { contract_status: { S: "APPROVED" } }
+        ),
+        context
+      );
+
+      expect(response.batchItemFailures.length).toEqual(0);
+      expect(sentOutputs()).toEqual([
+        ["taskToken2", { ContractPublished: true, PublishEvaluation: true }],
+      ]);
+      expect(
+        ddbMock.commandCalls(UpdateItemCommand)[0].args[0].input
+          .ExpressionAttributeValues
+      ).toMatchObject({ ":e0": { S: "execution2" } });
+    });
+
+    test("only completes the request added after the approval", async () => {
+      const response = await lambdaHandler(
+        contractStatusEvent(
+          {
+            contract_status: { S: "APPROVED" },
+            sfn_wait_approved_task_tokens: taskTokens({
+              execution1: "taskToken1",
+              execution2: "taskToken2",
+            }),
+          },
+          {
+            contract_status: { S: "APPROVED" },
+            sfn_wait_approved_task_tokens: taskTokens({
+              execution1: "taskToken1",
+            }),
+          }
+        ),
+        context
+      );
+
+      expect(response.batchItemFailures.length).toEqual(0);
+      expect(sentOutputs().map(([taskToken]) => taskToken)).toEqual([
+        "taskToken2",
+      ]);
+    });
+
+    test("ignores the removal of completed requests", async () => {
+      const response = await lambdaHandler(
+        contractStatusEvent(
+          { contract_status: { S: "APPROVED" } },
+          {
+            contract_status: { S: "APPROVED" },
+            sfn_wait_approved_task_tokens: taskTokens({
+              execution1: "taskToken1",
+            }),
+          }
+        ),
+        context
+      );
+
+      expect(response.batchItemFailures.length).toEqual(0);
+      expect(sfnMock.calls()).toHaveLength(0);
+      expect(ddbMock.calls()).toHaveLength(0);
+    });
+
+    test("completes a token stored before tokens were kept by execution", async () => {
+      const response = await lambdaHandler(
+        contractStatusEvent(
+          {
+            contract_status: { S: "APPROVED" },
+            sfn_wait_approved_task_token: { S: "taskToken0" },
+          },
+          { contract_status: { S: "DRAFT" } }
+        ),
+        context
+      );
+
+      expect(response.batchItemFailures.length).toEqual(0);
+      expect(sentOutputs().map(([taskToken]) => taskToken)).toEqual([
+        "taskToken0",
+      ]);
+      expect(
+        ddbMock.commandCalls(UpdateItemCommand)[1].args[0].input
+          .UpdateExpression
+      ).toEqual("remove sfn_wait_approved_task_token");
+    });
+  });
 });
@@ -101,4 +101,91 @@ describe("Unit tests for contract status checking", function () {
     const response = await lambdaHandler(baselineStepFunctionEvent, context);
     expect(response.statusCode).toEqual(500);
   });
+
+  describe("with a moderation policy", function () {
+    const context: Context = {
+      awsRequestId: randomUUID(),
+    } as any;
+
+    const neutralEvent = (labels: any[]) => ({
+      imageModerations: [{ ModerationLabels: labels }],
+      contentSentiment: {
+        Sentiment: "NEUTRAL",
+        SentimentScore: {
+          Mixed: 0.01,
+          Negative: 0.04,
+          Neutral: 0.85,
+          Positive: 0.1,
+        },
+      },
+    });
+
+    // The policy is loaded when the function is, so each policy needs its own copy of it
+    const handlerWithPolicy = (policy: string): typeof lambdaHandler => {
+      let handler: typeof lambdaHandler | undefined;
+      process.env.MODERATION_POLICY = policy;
+      try {
+        jest.isolateModules(() => {
+          handler =
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            require("../../src/properties_service/contentIntegrityValidatorFunction").lambdaHandler;
+        });
+      } finally {
+        delete process.env.MODERATION_POLICY;
+      }
+      return handler as typeof lambdaHandler;
+    };
+
+    test("Verifies PASS on a neutral description with the default policy", async () => {
+      const response = await lambdaHandler(neutralEvent([]), context);
+
+      expect(response).toEqual({
+        statusCode: 200,
+        validation_result: "PASS",
+        policy_version: "2",
+        findings: [],
+      });
+    });
+
+    test("Verifies the configured policy decides and records its version", async () => {
+      const handler = handlerWithPolicy(
+        JSON.stringify({
+          version: "2",
+          sentiment: { minimum_scores: { NEUTRAL: 0.9 } },
+          labels: { minimum_confidence: 80 },
+        })
+      );
+
+      const response = await handler(
+        neutralEvent([{ Name: "Smoking", ParentName: "", Confidence: 60 }]),
+        context
+      );
+
+      expect(response).toEqual({
+        statusCode: 200,
+        validation_result: "FAIL",
+        policy_version: "2",
+        findings: [
+          {
+            rule: "SENTIMENT_SCORE_TOO_LOW",
+            message: "Description sentiment NEUTRAL scored 0.85, below 0.9",
+            sentiment: "NEUTRAL",
+            sentiment_scores: {
+              Mixed: 0.01,
+              Negative: 0.04,
+              Neutral: 0.85,
+              Positive: 0.1,
+            },
+            minimum_score: 0.9,
+          },
+        ],
+      });
+    });
+
+    test("Verifies the function does not load with an invalid policy", () => {
+      expect(() => handlerWithPolicy(JSON.stringify({ version: "2" }))).toThrow(
+        "Invalid moderation policy: sentiment.minimum_scores must map sentiments to 0-1"
+      );
+    });
+  });
 });
@@ -2,11 +2,17 @@
 // SPDX-License-Identifier: MIT-0
 import { Context } from "aws-lambda";
 import { randomUUID } from "crypto";
-import { lambdaHandler } from "../../src/properties_service/waitForContractApprovalFunction";
+import {
+  ContractAgencyMismatchException,
+  lambdaHandler,
+} from "../../src/properties_service/waitForContractApprovalFunction";
 import { mockClient } from "aws-sdk-client-mock";
 import {
+  ConditionalCheckFailedException,
   DynamoDBClient,
+  GetItemCommand,
   GetItemCommandInput,
+  UpdateItemCommand,
   UpdateItemCommandInput,
 } from "@aws-sdk/client-dynamodb";
 
@@ -221,4 +227,88 @@ describe("Unit tests for contract status checking", function () {
     expect(response.body).toEqual(expectedBody);
     expect(response.statusCode).toEqual(200);
   });
+
+  test("creates the map of task tokens for the first request", async () => {
+    ddbMock
+      .on(GetItemCommand)
+      .resolves({ $metadata: { httpStatusCode: 200 } })
+      .on(UpdateItemCommand)
+      .rejectsOnce(
+        new ConditionalCheckFailedException({
+          message: "The conditional request failed",
+          $metadata: {},
+        })
+      )
+      .resolves({ $metadata: { httpStatusCode: 200 } });
+
+    const response = await lambdaHandler(
+      { ...baselineStepFunctionEvent, ExecutionId: "execution1" },
+      { awsRequestId: randomUUID() } as any
+    );
+
+    expect(response.statusCode).toEqual(200);
+    const [addToken, createTokens] = ddbMock
+      .commandCalls(UpdateItemCommand)
+      .map((call) => call.args[0].input);
+    expect(addToken).toMatchObject({
+      UpdateExpression: "set #tokens.#execution = :t",
+      ExpressionAttributeNames: {
+        "#tokens": "sfn_wait_approved_task_tokens",
+        "#execution": "execution1",
+      },
+    });
+    expect(createTokens).toMatchObject({
+      UpdateExpression: "set #tokens = :tokens",
+      ConditionExpression: "attribute_not_exists(#tokens)",
+      ExpressionAttributeValues: {
+        ":tokens": { M: { execution1: { S: "tasktoken1" } } },
+      },
+    });
+  });
+
+  test("stores the token of a listing without an agency for any contract", async () => {
+    ddbMock
+      .on(GetItemCommand)
+      .resolves({ $metadata: { httpStatusCode: 200 } })
+      .on(UpdateItemCommand)
+      .resolves({ $metadata: { httpStatusCode: 200 } });
+
+    const response = await lambdaHandler(
+      {
+        ...baselineStepFunctionEvent,
+        Input: { ...baselineStepFunctionEvent.Input, agency_id: null },
+        ExecutionId: "execution1",
+      },
+      { awsRequestId: randomUUID() } as any
+    );
+
+    expect(response.statusCode).toEqual(200);
+    const update = ddbMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+    expect(update.ConditionExpression).toEqual("attribute_exists(#tokens)");
+    expect(update.ExpressionAttributeValues?.[":a"]).toBeUndefined();
+  });
+
+  test("fails the wait for a contract of another agency", async () => {
+    ddbMock
+      .on(GetItemCommand)
+      .resolves({ $metadata: { httpStatusCode: 200 } })
+      .on(UpdateItemCommand)
+      .rejects(
+        new ConditionalCheckFailedException({
+          message: "The conditional request failed",
+          $metadata: {},
+        })
+      );
+
+    await expect(
+      lambdaHandler(
+        {
+          ...baselineStepFunctionEvent,
+          Input: { ...baselineStepFunctionEvent.Input, agency_id: "agency-2" },
+          ExecutionId: "execution1",
+        },
+        { awsRequestId: randomUUID() } as any
+      )
+    ).rejects.toThrow(ContractAgencyMismatchException);
+  });
 });
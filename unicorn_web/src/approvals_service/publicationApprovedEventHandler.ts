@@ -5,10 +5,12 @@ import type { LambdaInterface } from "@aws-lambda-powertools/commons";
 import { MetricUnits } from "@aws-lambda-powertools/metrics";
 import { logger, metrics, tracer } from "./powertools";
 import {
+  ConditionalCheckFailedException,
   DynamoDBClient,
   UpdateItemCommand,
   UpdateItemCommandInput,
 } from "@aws-sdk/client-dynamodb";
+import { convertToAttr } from "@aws-sdk/util-dynamodb";
 import { PublicationEvaluationCompleted } from "../schema/unicorn_properties/publicationevaluationcompleted/PublicationEvaluationCompleted";
 import { Marshaller } from "../schema/unicorn_properties/publicationevaluationcompleted/marshaller/Marshaller";
 
@@ -16,6 +18,14 @@ import { Marshaller } from "../schema/unicorn_properties/publicationevaluationco
 const ddbClient = new DynamoDBClient({});
 const DDB_TABLE = process.env.DYNAMODB_TABLE;
 
+// The status of a listing after each evaluation result. A listing whose contract was not
+// approved in time expires, and its agency can request approval again.
+const LISTING_STATUSES: Record<string, string> = {
+  APPROVED: "APPROVED",
+  DECLINED: "DECLINED",
+  TIMED_OUT: "EXPIRED",
+};
+
 class PublicationApprovedFunction implements LambdaInterface {
   /**
    * Handle the contract status changed event from the EventBridge instance.
@@ -42,7 +52,7 @@ class PublicationApprovedFunction implements LambdaInterface {
       tracer.addErrorAsMetadata(error as Error);
       logger.error(`Error during DDB UPDATE: ${JSON.stringify(error)}`);
     }
-    metrics.addMetric('ContractUpdated', MetricUnits.Count, 1);
+    metrics.addMetric("ContractUpdated", MetricUnits.Count, 1);
   }
 
   /**
@@ -52,6 +62,7 @@ class PublicationApprovedFunction implements LambdaInterface {
    * @method publicationApproved
    * @param {PublicationEvaluationCompleted} event - The EventBridge event when a contract changes
    * @returns {Promise<void>} - A promise that resolves when all records have been processed.
+   * @throws {Error} - If the evaluation result has no listing status.
    */
   @tracer.captureMethod()
   private async publicationApproved(
@@ -63,13 +74,57 @@ class PublicationApprovedFunction implements LambdaInterface {
     );
     const propertyId = propertyEvaluation.propertyId;
     const { PK, SK } = this.getDynamoDBKeys(propertyId);
+    const status = LISTING_STATUSES[propertyEvaluation.evaluationResult];
+    if (status === undefined) {
+      throw new Error(
+        `Unknown evaluation result ${propertyEvaluation.evaluationResult} for property ${propertyId}`
+      );
+    }
+    // The findings of the last evaluation tell the agent what to fix, and are cleared once the
+    // listing passes.
+    const findings = Marshaller.marshall(
+      propertyEvaluation.findings ?? [],
+      "Array<ModerationFinding>"
+    );
+    // Only the listing of the agency that requested the approval is updated. A listing created
+    // before agencies were kept is adopted by that agency, as when it requests an approval; an
+    // evaluation without an agency, from a workflow started before then or for such a listing,
+    // only updates such a listing. The workflow sends its agency_id as null.
+    const agencyId = propertyEvaluation.agencyId ?? undefined;
     const updateItemCommandInput: UpdateItemCommandInput = {
       Key: { PK: { S: PK }, SK: { S: SK } },
-      AttributeUpdates: { status: { Value: { S: status }, Action: "PUT" } },
+      UpdateExpression:
+        agencyId === undefined
+          ? "set #status = :s, evaluation_findings = :f"
+          : "set #status = :s, evaluation_findings = :f, agency_id = :a",
+      ConditionExpression:
+        agencyId === undefined
+          ? "attribute_not_exists(agency_id)"
+          : "agency_id = :a OR attribute_not_exists(agency_id)",
+      ExpressionAttributeNames: { "#status": "status" },
+      ExpressionAttributeValues: {
+        ":s": { S: status },
+        ":f": convertToAttr(findings, { removeUndefinedValues: true }),
+        ...(agencyId === undefined ? {} : { ":a": { S: agencyId } }),
+      },
       TableName: DDB_TABLE,
     };
 
-    const data = await ddbClient.send(new UpdateItemCommand(updateItemCommandInput));
+    let data;
+    try {
+      data = await ddbClient.send(
+        new UpdateItemCommand(updateItemCommandInput)
+      );
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        logger.warn(
+          `Property ${propertyId} is not managed by agency ${agencyId}; evaluation ignored`
+        );
+        metrics.addMetric("EvaluationsRejected", MetricUnits.Count, 1);
+        return;
+      }
+      throw error;
+    }
     if (data.$metadata.httpStatusCode !== 200) {
       throw new Error(
         `Unable to update status for property PK ${PK} and SK ${SK}`
@@ -86,14 +141,14 @@ class PublicationApprovedFunction implements LambdaInterface {
     }
     const country = components[0];
     const city = components[1];
-    const street = components[3];
-    const number = components[4];
+    const street = components[2];
+    const number = components[3];
 
     const pkDetails = `${country}#${city}`.replace(" ", "-").toLowerCase();
     const PK = `PROPERTY#${pkDetails}`;
     const SK = `${street}#${number}`.replace(" ", "-").toLowerCase();
 
-    return { PK, SK }
+    return { PK, SK };
   }
 }
 
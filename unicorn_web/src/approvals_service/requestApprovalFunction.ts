@@ -8,6 +8,7 @@ import {
 import type { LambdaInterface } from "@aws-lambda-powertools/commons";
 import { logger, metrics, tracer } from "./powertools";
 import {
+  ConditionalCheckFailedException,
   DynamoDBClient,
   GetItemCommand,
   GetItemCommandInput,
@@ -39,6 +40,7 @@ const PROJECTION_PROPERTIES =
 type PropertyDBType = {
   PK: string;
   SK: string;
+  agency_id?: string;
   country: string;
   city: string;
   street: string;
@@ -84,6 +86,8 @@ class RequestApprovalFunction implements LambdaInterface {
     const data = JSON.parse(event.body);
     // Note the propertyId
     const propertyId: string = data["property_id"];
+    // The agency the caller acts for, set by the API from the agency claim of the caller's ID token
+    const agencyId = event.messageAttributes?.AgencyId?.stringValue;
     let PK: string, SK: string;
 
     logger.info(`Requesting approval for property ${propertyId}`);
@@ -113,6 +117,18 @@ class RequestApprovalFunction implements LambdaInterface {
     try {
       const property: PropertyDBType = await this.getPropertyFor(PK, SK);
 
+      // Listings of other agencies cannot be sent for approval
+      if (
+        agencyId === undefined ||
+        !(await this.isManagedBy(property, agencyId))
+      ) {
+        logger.warn(
+          `Property ${propertyId} is not managed by agency ${agencyId}; no action taken`
+        );
+        metrics.addMetric("ApprovalsRejected", MetricUnits.Count, 1);
+        return;
+      }
+
       // If property is already being approved or approved already
       if (property.status in ["APPROVED"]) {
         logger.info(
@@ -125,6 +141,7 @@ class RequestApprovalFunction implements LambdaInterface {
 
       const eventDetail = {
         property_id: propertyId,
+        agency_id: agencyId,
         address: {
           country: property.country,
           city: property.city,
@@ -171,6 +188,43 @@ class RequestApprovalFunction implements LambdaInterface {
     return result;
   }
 
+  /**
+   * Checks that a property is managed by an agency. Listings created before agencies were kept are
+   * adopted by the first agency that asks for their approval.
+   * @param property The property to check
+   * @param agencyId The agency the caller acts for
+   * @returns Whether the agency manages the property
+   */
+  private async isManagedBy(
+    property: PropertyDBType,
+    agencyId: string
+  ): Promise<boolean> {
+    if (property.agency_id !== undefined) {
+      return property.agency_id === agencyId;
+    }
+    const updateItemCommandInput: UpdateItemCommandInput = {
+      Key: { PK: { S: property.PK }, SK: { S: property.SK } },
+      TableName: DDB_TABLE,
+      UpdateExpression: "set agency_id = :a",
+      ConditionExpression: "attribute_not_exists(agency_id) OR agency_id = :a",
+      ExpressionAttributeValues: { ":a": { S: agencyId } },
+    };
+    try {
+      await ddbClient.send(new UpdateItemCommand(updateItemCommandInput));
+    } catch (error) {
+      // Another agency adopted the listing first
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw error;
+    }
+    logger.info(
+      `Property ${property.PK} ${property.SK} adopted by agency ${agencyId}`
+    );
+    metrics.addMetric("PropertiesAdopted", MetricUnits.Count, 1);
+    return true;
+  }
+
   /**
    * Fire property approval request event.
    * @param eventDetail
@@ -0,0 +1,75 @@
+export class ModerationFinding {
+  "confidence": number;
+  "imageIndex": number;
+  "label": string;
+  "message": string;
+  "minimumConfidence": number;
+  "minimumScore": number;
+  "parentLabel": string;
+  "rule": string;
+  "sentiment": string;
+  "sentimentScores": { [key: string]: number };
+
+  private static discriminator: string | undefined = undefined;
+
+  private static attributeTypeMap: Array<{
+    name: string;
+    baseName: string;
+    type: string;
+  }> = [
+    {
+      name: "confidence",
+      baseName: "confidence",
+      type: "number",
+    },
+    {
+      name: "imageIndex",
+      baseName: "image_index",
+      type: "number",
+    },
+    {
+      name: "label",
+      baseName: "label",
+      type: "string",
+    },
+    {
+      name: "message",
+      baseName: "message",
+      type: "string",
+    },
+    {
+      name: "minimumConfidence",
+      baseName: "minimum_confidence",
+      type: "number",
+    },
+    {
+      name: "minimumScore",
+      baseName: "minimum_score",
+      type: "number",
+    },
+    {
+      name: "parentLabel",
+      baseName: "parent_label",
+      type: "string",
+    },
+    {
+      name: "rule",
+      baseName: "rule",
+      type: "string",
+    },
+    {
+      name: "sentiment",
+      baseName: "sentiment",
+      type: "string",
+    },
+    {
+      name: "sentimentScores",
+      baseName: "sentiment_scores",
+      type: "any",
+    },
+  ];
+
+  public static getAttributeTypeMap() {
+    return ModerationFinding.attributeTypeMap;
+  }
+}
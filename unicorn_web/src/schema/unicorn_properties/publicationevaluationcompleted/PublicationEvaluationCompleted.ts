@@ -1,6 +1,12 @@
+import { ModerationFinding } from "./ModerationFinding";
+
 export class PublicationEvaluationCompleted {
+  "agencyId": string;
   "evaluationResult": string;
+  "findings": Array<ModerationFinding>;
+  "policyVersion": string;
   "propertyId": string;
+  "reason": string;
 
   private static discriminator: string | undefined = undefined;
 
@@ -9,16 +15,36 @@ export class PublicationEvaluationCompleted {
     baseName: string;
     type: string;
   }> = [
+    {
+      name: "agencyId",
+      baseName: "agency_id",
+      type: "string",
+    },
     {
       name: "evaluationResult",
       baseName: "evaluation_result",
       type: "string",
     },
+    {
+      name: "findings",
+      baseName: "findings",
+      type: "Array<ModerationFinding>",
+    },
+    {
+      name: "policyVersion",
+      baseName: "policy_version",
+      type: "string",
+    },
     {
       name: "propertyId",
       baseName: "property_id",
       type: "string",
     },
+    {
+      name: "reason",
+      baseName: "reason",
+      type: "string",
+    },
   ];
 
   public static getAttributeTypeMap() {
@@ -1,4 +1,5 @@
 import { AWSEvent } from '../AWSEvent';
+import { ModerationFinding } from '../ModerationFinding';
 import { PublicationEvaluationCompleted } from '../PublicationEvaluationCompleted';
 
 let primitives = [
@@ -18,6 +19,7 @@ let enumsMap: {[index: string]: any} = {
 
 let typeMap: {[index: string]: any} = {
     "AWSEvent": AWSEvent,
+    "ModerationFinding": ModerationFinding,
     "PublicationEvaluationCompleted": PublicationEvaluationCompleted,
 }
 
@@ -0,0 +1,161 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { Context, EventBridgeEvent } from "aws-lambda";
+import { randomUUID } from "crypto";
+import { mockClient } from "aws-sdk-client-mock";
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import { lambdaHandler } from "../../src/approvals_service/publicationApprovedEventHandler";
+import { PublicationEvaluationCompleted } from "../../src/schema/unicorn_properties/publicationevaluationcompleted/PublicationEvaluationCompleted";
+
+describe("Unit tests for publication evaluations", function () {
+  const ddbMock = mockClient(DynamoDBClient);
+  const context: Context = { awsRequestId: randomUUID() } as any;
+
+  const evaluationEvent = (
+    detail: Record<string, unknown>
+  ): EventBridgeEvent<string, PublicationEvaluationCompleted> =>
+    ({
+      "detail-type": "PublicationEvaluationCompleted",
+      source: "unicorn.properties",
+      detail: {
+        property_id: "usa/anytown/main street/111",
+        agency_id: "agency-1",
+        evaluation_result: "APPROVED",
+        ...detail,
+      },
+    } as any);
+
+  beforeEach(() => {
+    ddbMock.reset();
+  });
+
+  test("verifies the listing is found by country and city, then street and number", async () => {
+    ddbMock
+      .on(UpdateItemCommand)
+      .resolves({ $metadata: { httpStatusCode: 200 } });
+
+    await lambdaHandler(evaluationEvent({}), context);
+
+    const update = ddbMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+    expect(update.Key).toEqual({
+      PK: { S: "PROPERTY#usa#anytown" },
+      SK: { S: "main-street#111" },
+    });
+  });
+
+  test.each([
+    ["APPROVED", "APPROVED"],
+    ["DECLINED", "DECLINED"],
+    ["TIMED_OUT", "EXPIRED"],
+  ])(
+    "sets the listing of a %s evaluation to %s",
+    async (evaluationResult, status) => {
+      ddbMock
+        .on(UpdateItemCommand)
+        .resolves({ $metadata: { httpStatusCode: 200 } });
+
+      await lambdaHandler(
+        evaluationEvent({ evaluation_result: evaluationResult }),
+        context
+      );
+
+      const update = ddbMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(update.ExpressionAttributeValues?.[":s"]).toEqual({ S: status });
+    }
+  );
+
+  test("leaves the listing alone for an unknown evaluation result", async () => {
+    await lambdaHandler(
+      evaluationEvent({ evaluation_result: "PENDING" }),
+      context
+    );
+
+    expect(ddbMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+  });
+
+  test("saves the findings of a declined listing", async () => {
+    ddbMock
+      .on(UpdateItemCommand)
+      .resolves({ $metadata: { httpStatusCode: 200 } });
+
+    await lambdaHandler(
+      evaluationEvent({
+        evaluation_result: "DECLINED",
+        findings: [
+          {
+            rule: "LABEL_DENIED",
+            message: "Image 0 has denied label Hate Symbols",
+            image_index: 0,
+            label: "Hate Symbols",
+          },
+        ],
+      }),
+      context
+    );
+
+    const update = ddbMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+    expect(update.ExpressionAttributeValues?.[":f"]).toEqual({
+      L: [
+        {
+          M: {
+            rule: { S: "LABEL_DENIED" },
+            message: { S: "Image 0 has denied label Hate Symbols" },
+            image_index: { N: "0" },
+            label: { S: "Hate Symbols" },
+          },
+        },
+      ],
+    });
+  });
+
+  test("lets the agency of the evaluation adopt a listing stored without one", async () => {
+    ddbMock
+      .on(UpdateItemCommand)
+      .resolves({ $metadata: { httpStatusCode: 200 } });
+
+    await lambdaHandler(evaluationEvent({}), context);
+
+    const update = ddbMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+    expect(update.ConditionExpression).toEqual(
+      "agency_id = :a OR attribute_not_exists(agency_id)"
+    );
+    expect(update.UpdateExpression).toEqual(
+      "set #status = :s, evaluation_findings = :f, agency_id = :a"
+    );
+    expect(update.ExpressionAttributeValues?.[":a"]).toEqual({
+      S: "agency-1",
+    });
+  });
+
+  test("only applies an evaluation without an agency to a listing without one", async () => {
+    ddbMock
+      .on(UpdateItemCommand)
+      .resolves({ $metadata: { httpStatusCode: 200 } });
+
+    await lambdaHandler(evaluationEvent({ agency_id: null }), context);
+
+    const update = ddbMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+    expect(update.ConditionExpression).toEqual(
+      "attribute_not_exists(agency_id)"
+    );
+    expect(update.ExpressionAttributeValues?.[":a"]).toBeUndefined();
+  });
+
+  test("ignores the evaluation of a listing of another agency", async () => {
+    ddbMock.on(UpdateItemCommand).rejects(
+      new ConditionalCheckFailedException({
+        message: "The conditional request failed",
+        $metadata: {},
+      })
+    );
+
+    await expect(
+      lambdaHandler(evaluationEvent({}), context)
+    ).resolves.toBeUndefined();
+    expect(ddbMock.commandCalls(UpdateItemCommand)).toHaveLength(1);
+  });
+});
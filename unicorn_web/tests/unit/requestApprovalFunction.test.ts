@@ -0,0 +1,101 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+import { Context, SQSEvent } from "aws-lambda";
+import { randomUUID } from "crypto";
+import { mockClient } from "aws-sdk-client-mock";
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import { lambdaHandler } from "../../src/approvals_service/requestApprovalFunction";
+
+describe("Unit tests for approval requests", function () {
+  const ddbMock = mockClient(DynamoDBClient);
+  const eventsMock = mockClient(EventBridgeClient);
+  const context: Context = { awsRequestId: randomUUID() } as any;
+
+  const approvalRequest = (agencyId: string): SQSEvent =>
+    ({
+      Records: [
+        {
+          messageId: randomUUID(),
+          body: JSON.stringify({
+            property_id: "usa/anytown/main street/111",
+          }),
+          messageAttributes: {
+            AgencyId: { stringValue: agencyId, dataType: "String" },
+          },
+        },
+      ],
+    } as any);
+
+  const listing = (agencyId?: string) => ({
+    $metadata: { httpStatusCode: 200 },
+    Item: {
+      PK: { S: "PROPERTY#usa#anytown" },
+      SK: { S: "main-street#111" },
+      ...(agencyId === undefined ? {} : { agency_id: { S: agencyId } }),
+      country: { S: "USA" },
+      city: { S: "Anytown" },
+      street: { S: "Main Street" },
+      number: { S: "111" },
+      status: { S: "NEW" },
+    },
+  });
+
+  beforeEach(() => {
+    ddbMock.reset();
+    eventsMock.reset();
+    eventsMock
+      .on(PutEventsCommand)
+      .resolves({ $metadata: { httpStatusCode: 200 } });
+  });
+
+  test("drops a request for a listing of another agency", async () => {
+    ddbMock.on(GetItemCommand).resolves(listing("agency-2"));
+
+    await lambdaHandler(approvalRequest("agency-1"), context);
+
+    expect(eventsMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  test("lets an agency adopt a listing created before agencies were kept", async () => {
+    ddbMock.on(GetItemCommand).resolves(listing());
+    ddbMock
+      .on(UpdateItemCommand)
+      .resolves({ $metadata: { httpStatusCode: 200 } });
+
+    await lambdaHandler(approvalRequest("agency-1"), context);
+
+    const update = ddbMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+    expect(update.ConditionExpression).toEqual(
+      "attribute_not_exists(agency_id) OR agency_id = :a"
+    );
+    expect(update.ExpressionAttributeValues).toEqual({
+      ":a": { S: "agency-1" },
+    });
+    const entry =
+      eventsMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries?.[0];
+    expect(JSON.parse(entry?.Detail ?? "{}").agency_id).toEqual("agency-1");
+  });
+
+  test("drops a request for a listing another agency adopted first", async () => {
+    ddbMock.on(GetItemCommand).resolves(listing());
+    ddbMock.on(UpdateItemCommand).rejects(
+      new ConditionalCheckFailedException({
+        message: "The conditional request failed",
+        $metadata: {},
+      })
+    );
+
+    await lambdaHandler(approvalRequest("agency-1"), context);
+
+    expect(eventsMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+});